@@ -1,24 +1,18 @@
-import { ImageResponse } from "next/og";
-import { getPostFrontmatter } from "@/lib/posts";
+import { OG_IMAGE_SIZE, renderOgImage } from "@/lib/og";
+import { getAllPostIds, getPostFrontmatter } from "@/lib/posts";
 
 export const alt = "Android Engineering Notes";
-export const size = {
-  width: 1200,
-  height: 630,
-};
+export const size = OG_IMAGE_SIZE;
 export const contentType = "image/png";
 
-async function loadJetBrainsMono(weight: 400 | 600 | 700) {
-  const cssUrl = `https://fonts.googleapis.com/css2?family=JetBrains+Mono:wght@${weight}&display=swap`;
-  const css = await (await fetch(cssUrl)).text();
-  const match = css.match(/src: url\(([^)]+)\) format\('(opentype|truetype|woff2)'\)/);
+// Prerendered at build time: the fonts are read from assets/fonts, which a
+// serverless deploy doesn't ship next to the route.
+export const dynamicParams = false;
 
-  if (!match) {
-    throw new Error("Failed to load JetBrains Mono font");
-  }
-
-  const fontFileUrl = match[1];
-  return fetch(fontFileUrl).then((res) => res.arrayBuffer());
+export function generateStaticParams() {
+  return getAllPostIds().map((post) => ({
+    slug: post.params.slug,
+  }));
 }
 
 export default async function OpenGraphImage({
@@ -32,12 +26,7 @@ export default async function OpenGraphImage({
   const title = post?.title ?? "Android Engineering Notes";
   const date = post?.date ?? "";
 
-  const [jbMono400, jbMono700] = await Promise.all([
-    loadJetBrainsMono(400),
-    loadJetBrainsMono(700),
-  ]);
-
-  return new ImageResponse(
+  return renderOgImage(
     (
       <div
         style={{
@@ -102,23 +91,6 @@ export default async function OpenGraphImage({
           </div>
         </div>
       </div>
-    ),
-    {
-      ...size,
-      fonts: [
-        {
-          name: "JetBrains Mono",
-          data: jbMono400,
-          weight: 400,
-          style: "normal",
-        },
-        {
-          name: "JetBrains Mono",
-          data: jbMono700,
-          weight: 700,
-          style: "normal",
-        },
-      ],
-    }
+    )
   );
 }
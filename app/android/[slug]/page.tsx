@@ -1,5 +1,12 @@
-import { getPostData, getAllPostIds, getPostFrontmatter } from "@/lib/posts";
+import { getPostData, getAllPostIds, getPostFrontmatter, getPostSeriesNavigation } from "@/lib/posts";
 import { SiteHeader } from "@/app/components/SiteHeader";
+import { JsonLd } from "@/app/components/JsonLd";
+import { postStructuredData } from "@/lib/structured-data";
+import { SeriesNavigator } from "@/app/components/SeriesNavigator";
+import { MobileTableOfContents, TableOfContents } from "@/app/components/TableOfContents";
+import { RelatedNotes } from "@/app/components/RelatedNotes";
+import { MarkdownBody } from "@/app/components/MarkdownBody";
+import { getAdjacentPosts, getRelatedPosts } from "@/lib/related";
 import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 import type { Metadata } from "next";
@@ -23,14 +30,22 @@ export async function generateMetadata({ params }: { params: Promise<{ slug: str
     description: post.description,
     alternates: {
       canonical: `/android/${slug}`,
+      // Only listed notes get a markdown source, matching llms.txt.
+      ...(post.status !== "unlisted" && {
+        types: {
+          "text/markdown": `/android/${slug}.md`,
+        },
+      }),
     },
+    // Unlisted notes stay reachable by URL but out of search results.
+    ...(post.status === "unlisted" && { robots: { index: false, follow: true } }),
     openGraph: {
       type: "article",
       title: post.title,
       description: post.description,
       url: `/android/${slug}`,
       publishedTime: post.date,
-      modifiedTime: post.date,
+      modifiedTime: post.updated,
       authors: ["https://davideagostini.com"],
       tags: post.tags,
       images: [
@@ -66,51 +81,98 @@ export default async function Post({ params }: { params: Promise<{ slug: string
     return <div>Post not found</div>;
   }
 
-  const jsonLd = {
-    "@context": "https://schema.org",
-    "@type": "TechArticle",
-    "headline": post.title,
-    "description": post.description,
-    "author": {
-      "@type": "Person",
-      "name": "Davide Agostini",
-      "url": "https://davideagostini.com"
-    },
-    "datePublished": post.date,
-    "dateModified": post.date,
-    "keywords": post.tags.join(", ")
-  };
+  const seriesNavigation = getPostSeriesNavigation(slug);
+  const relatedPosts = getRelatedPosts(slug);
+  const adjacentPosts = getAdjacentPosts(slug);
+  // Short notes read fine without an outline.
+  const showToc = post.toc.length >= 3;
+
+  const jsonLd = postStructuredData({ post, relatedPosts, seriesNavigation });
 
   return (
     <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
-      <script
-        type="application/ld+json"
-        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-      />
+      <JsonLd data={jsonLd} />
       
       <div className="mx-auto max-w-[980px]">
         <SiteHeader />
 
-        <article className="mx-auto max-w-[680px]">
-          <header className="mb-12">
-            <Link href="/android" className="mb-10 inline-flex items-center gap-1 text-sm font-semibold text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50">
-              <ArrowLeft className="h-4 w-4" /> Back to Android notes
-            </Link>
-            <p className="mb-5 font-mono text-xs font-bold uppercase tracking-widest text-android">
-              Android notes
-            </p>
-            <h1 className="mb-4 text-3xl font-semibold leading-tight tracking-tight text-zinc-950 dark:text-zinc-50 sm:text-4xl">
-            {post.title}
-            </h1>
-            <div className="flex items-center gap-4 text-xs font-mono text-zinc-400 dark:text-zinc-500">
-              <time dateTime={post.date}>{post.date}</time>
-              <span className="h-1 w-1 rounded-full bg-zinc-300 dark:bg-zinc-700"></span>
-              <span>By Davide Agostini</span>
-            </div>
-          </header>
-
-          <div className="prose prose-zinc prose-sm max-w-none dark:prose-invert sm:prose-base" dangerouslySetInnerHTML={{ __html: post.contentHtml }} />
-        </article>
+        <div className={showToc ? "lg:grid lg:grid-cols-[minmax(0,680px)_220px] lg:justify-center lg:gap-12" : undefined}>
+          <article className={showToc ? "mx-auto max-w-[680px] lg:mx-0" : "mx-auto max-w-[680px]"}>
+            <header className="mb-12">
+              <Link href="/android" className="mb-10 inline-flex items-center gap-1 text-sm font-semibold text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50">
+                <ArrowLeft className="h-4 w-4" /> Back to Android notes
+              </Link>
+              <p className="mb-5 font-mono text-xs font-bold uppercase tracking-widest text-android">
+                Android notes
+              </p>
+              <h1 className="mb-4 text-3xl font-semibold leading-tight tracking-tight text-zinc-950 dark:text-zinc-50 sm:text-4xl">
+              {post.title}
+              </h1>
+              <div className="flex items-center gap-4 text-xs font-mono text-zinc-400 dark:text-zinc-500">
+                <time dateTime={post.date}>{post.date}</time>
+                {post.updated !== post.date && (
+                  <>
+                    <span className="h-1 w-1 rounded-full bg-zinc-300 dark:bg-zinc-700"></span>
+                    <span>
+                      Updated on <time dateTime={post.updated}>{post.updated}</time>
+                    </span>
+                  </>
+                )}
+                <span className="h-1 w-1 rounded-full bg-zinc-300 dark:bg-zinc-700"></span>
+                <span>By Davide Agostini</span>
+              </div>
+              <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-mono text-zinc-400 dark:text-zinc-500">
+                <span>{post.readingStats.readingMinutes} min read</span>
+                <span className="h-1 w-1 rounded-full bg-zinc-300 dark:bg-zinc-700"></span>
+                <span>{post.readingStats.wordCount.toLocaleString("en-US")} words</span>
+                {post.readingStats.codeBlockCount > 0 && (
+                  <>
+                    <span className="h-1 w-1 rounded-full bg-zinc-300 dark:bg-zinc-700"></span>
+                    <span>
+                      {post.readingStats.codeBlockCount === 1 ? "1 code sample" : `${post.readingStats.codeBlockCount} code samples`}
+                    </span>
+                  </>
+                )}
+              </div>
+              {seriesNavigation && (
+                <Link
+                  href={`/android/series/${seriesNavigation.series.slug}`}
+                  className="mt-4 inline-block font-mono text-xs text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50"
+                >
+                  Part {seriesNavigation.part.order} of {seriesNavigation.series.totalParts} · {seriesNavigation.series.title}
+                </Link>
+              )}
+            </header>
+
+            {showToc && <MobileTableOfContents items={post.toc} />}
+
+            <MarkdownBody className="prose prose-zinc prose-sm max-w-none dark:prose-invert sm:prose-base" html={post.contentHtml} />
+
+            {post.changelog && (
+              <section className="mt-16 border-t border-zinc-200 pt-8 dark:border-zinc-800">
+                <h2 className="mb-6 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+                  Changelog
+                </h2>
+                <ul className="space-y-3">
+                  {post.changelog.map((entry) => (
+                    <li key={`${entry.date}-${entry.note}`} className="flex gap-4 text-sm leading-6 text-zinc-600 dark:text-zinc-400">
+                      <time dateTime={entry.date} className="shrink-0 font-mono text-xs leading-6 text-zinc-400 dark:text-zinc-500">
+                        {entry.date}
+                      </time>
+                      <span>{entry.note}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {seriesNavigation && <SeriesNavigator {...seriesNavigation} />}
+
+            <RelatedNotes related={relatedPosts} {...adjacentPosts} />
+          </article>
+
+          {showToc && <TableOfContents items={post.toc} />}
+        </div>
       </div>
     </main>
   );
@@ -0,0 +1,77 @@
+import Link from "next/link";
+import { Suspense } from "react";
+import { ArrowLeft } from "lucide-react";
+import type { Metadata } from "next";
+import { getAllTags, getPostArchive } from "@/lib/posts";
+import { SiteHeader } from "@/app/components/SiteHeader";
+import { FilterableNoteArchive, NoteArchive, type ArchiveGroup } from "@/app/components/NoteArchive";
+
+export const metadata: Metadata = {
+  title: "Archive | Android Engineering Notes",
+  description: "Every Android engineering note by Davide Agostini, grouped by year and month and filterable by tag.",
+  alternates: {
+    canonical: "/android/archive",
+  },
+  openGraph: {
+    title: "Archive | Android Engineering Notes",
+    description: "Every Android engineering note by Davide Agostini, grouped by year and month and filterable by tag.",
+    url: "https://davideagostini.com/android/archive",
+    type: "website",
+    siteName: "Davide Agostini",
+    images: [{
+      url: "/android/opengraph-image",
+      width: 1200,
+      height: 630,
+      alt: "Android Engineering Notes"
+    }]
+  },
+  twitter: {
+    card: "summary_large_image",
+    title: "Archive | Android Engineering Notes",
+    description: "Every Android engineering note by Davide Agostini, grouped by year and month.",
+    creator: "@davideagostini",
+    images: ["/android/opengraph-image"]
+  }
+};
+
+export default function ArchivePage() {
+  // Only the fields the archive renders are sent to the client component.
+  const groups: ArchiveGroup[] = getPostArchive().map((group) => ({
+    year: group.year,
+    months: group.months.map((month) => ({
+      key: month.key,
+      label: month.label,
+      posts: month.posts.map(({ id, title, date, tags }) => ({ id, title, date, tags })),
+    })),
+  }));
+  // One-off tags would turn the chip row into noise; their tag pages still exist.
+  const tags = getAllTags()
+    .filter((tag) => tag.count > 1)
+    .map(({ slug, name, count }) => ({ slug, name, count }));
+
+  return (
+    <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
+      <div className="mx-auto max-w-[980px]">
+        <SiteHeader />
+
+        <Link href="/android" className="mb-12 inline-flex items-center gap-1 text-sm font-semibold text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50">
+          <ArrowLeft className="h-4 w-4" /> Back to Android notes
+        </Link>
+
+        <header className="mb-12 max-w-[720px]">
+          <p className="mb-5 font-mono text-xs font-bold uppercase tracking-widest text-android">
+            Archive
+          </p>
+          <h1 className="text-5xl font-semibold leading-[1.02] tracking-tight text-zinc-950 dark:text-zinc-50 sm:text-6xl">
+            All notes
+          </h1>
+        </header>
+
+        {/* Search params are only known in the browser; the static HTML ships the full archive. */}
+        <Suspense fallback={<NoteArchive groups={groups} />}>
+          <FilterableNoteArchive groups={groups} tags={tags} />
+        </Suspense>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,11 @@
+import { buildAtomFeed } from '@/lib/feeds'
+
+export const dynamic = 'force-static'
+
+export async function GET() {
+    return new Response(await buildAtomFeed(), {
+        headers: {
+            'Content-Type': 'application/atom+xml; charset=utf-8',
+        },
+    })
+}
@@ -0,0 +1,11 @@
+import { buildJsonFeed } from '@/lib/feeds'
+
+export const dynamic = 'force-static'
+
+export async function GET() {
+    return Response.json(await buildJsonFeed(), {
+        headers: {
+            'Content-Type': 'application/feed+json; charset=utf-8',
+        },
+    })
+}
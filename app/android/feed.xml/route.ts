@@ -0,0 +1,11 @@
+import { buildRssFeed } from '@/lib/feeds'
+
+export const dynamic = 'force-static'
+
+export async function GET() {
+    return new Response(await buildRssFeed(), {
+        headers: {
+            'Content-Type': 'application/rss+xml; charset=utf-8',
+        },
+    })
+}
@@ -0,0 +1,25 @@
+import { buildPostMarkdown } from '@/lib/llms'
+import { getSortedPostsData } from '@/lib/posts'
+
+// Served at /android/[slug].md through a rewrite in next.config.ts.
+export const dynamic = 'force-static'
+export const dynamicParams = false
+
+export function generateStaticParams() {
+    return getSortedPostsData().map((post) => ({ slug: post.id }))
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ slug: string }> }) {
+    const { slug } = await params
+    const markdown = buildPostMarkdown(slug)
+
+    if (!markdown) {
+        return new Response('Not found', { status: 404 })
+    }
+
+    return new Response(markdown, {
+        headers: {
+            'Content-Type': 'text/markdown; charset=utf-8',
+        },
+    })
+}
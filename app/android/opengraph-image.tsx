@@ -1,14 +1,11 @@
-import { ImageResponse } from "next/og";
+import { OG_IMAGE_SIZE, renderOgImage } from "@/lib/og";
 
 export const alt = "Android Engineering Notes by Davide Agostini";
-export const size = {
-  width: 1200,
-  height: 630,
-};
+export const size = OG_IMAGE_SIZE;
 export const contentType = "image/png";
 
 export default function OpenGraphImage() {
-  return new ImageResponse(
+  return renderOgImage(
     (
       <div
         style={{
@@ -20,7 +17,7 @@ export default function OpenGraphImage() {
           background: "#ffffff",
           color: "#09090b",
           padding: "72px",
-          fontFamily: "Arial, sans-serif",
+          fontFamily: "Inter",
         }}
       >
         <div style={{ display: "flex", color: "#3ddc84", fontSize: 28, fontWeight: 700 }}>
@@ -35,7 +32,6 @@ export default function OpenGraphImage() {
           </div>
         </div>
       </div>
-    ),
-    size
+    )
   );
 }
@@ -1,6 +1,11 @@
 import Link from "next/link";
-import { getSortedPostsData } from "@/lib/posts";
+import { getAllSeries, getPaginatedPosts } from "@/lib/posts";
 import { SiteHeader } from "@/app/components/SiteHeader";
+import { JsonLd } from "@/app/components/JsonLd";
+import { notesPageStructuredData } from "@/lib/structured-data";
+import { NoteCard } from "@/app/components/NoteCard";
+import { NoteSearch } from "@/app/components/NoteSearch";
+import { Pagination } from "@/app/components/Pagination";
 import type { Metadata } from "next";
 
 export const metadata: Metadata = {
@@ -32,42 +37,26 @@ export const metadata: Metadata = {
 };
 
 export default function AndroidNotes() {
-  const posts = getSortedPostsData();
-  
-  // Create JSON-LD for CollectionPage
-  const jsonLd = {
-    "@context": "https://schema.org",
-    "@type": "CollectionPage",
-    "name": "Android Engineering Notes",
-    "description": "A collection of technical notes on Android development, security, and performance.",
-    "url": "https://davideagostini.com/android",
-    "author": {
-      "@type": "Person",
-      "name": "Davide Agostini",
-      "url": "https://davideagostini.com"
-    },
-    "mainEntity": {
-      "@type": "ItemList",
-      "itemListElement": posts.map((post, index) => ({
-        "@type": "ListItem",
-        "position": index + 1,
-        "url": `https://davideagostini.com/android/${post.id}`,
-        "name": post.title
-      }))
-    }
+  const data = getPaginatedPosts(1) ?? {
+    posts: [],
+    page: 1,
+    totalPages: 1,
+    totalPosts: 0,
+    offset: 0,
   };
+  const { posts, page, totalPages } = data;
+  const allSeries = getAllSeries();
+  
+  const jsonLd = notesPageStructuredData(data);
 
   return (
     <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
-      <script
-        type="application/ld+json"
-        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-      />
+      <JsonLd data={jsonLd} />
       
       <div className="mx-auto max-w-[980px]">
         <SiteHeader />
 
-        <header className="mb-24 max-w-[720px]">
+        <header className="mb-16 max-w-[720px]">
           <p className="mb-5 font-mono text-xs font-bold uppercase tracking-widest text-android">
             Android notes
           </p>
@@ -81,6 +70,36 @@ export default function AndroidNotes() {
           </p>
         </header>
 
+        <NoteSearch />
+
+        {allSeries.length > 0 && (
+          <section className="mb-24">
+            <h2 className="mb-8 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+              Learning tracks
+            </h2>
+
+            <div className="grid gap-x-10 gap-y-10 md:grid-cols-2">
+              {allSeries.map((series) => (
+                <Link
+                  key={series.slug}
+                  href={`/android/series/${series.slug}`}
+                  className="group block border-t border-zinc-200 pt-5 dark:border-zinc-800"
+                >
+                  <h3 className="text-2xl font-semibold leading-tight tracking-tight text-zinc-950 group-hover:underline dark:text-zinc-50">
+                    {series.title}
+                  </h3>
+                  <p className="mt-2 font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                    {series.parts.length} of {series.totalParts} parts
+                  </p>
+                  <p className="mt-4 text-base leading-7 text-zinc-600 dark:text-zinc-400">
+                    {series.description}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
         <section>
           <h2 className="mb-8 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
             Latest notes
@@ -95,39 +114,19 @@ export default function AndroidNotes() {
                 title={post.title}
                 tags={post.tags}
                 desc={post.description}
+                readingMinutes={post.readingStats.readingMinutes}
               />
             ))}
             {posts.length === 0 && <p className="text-zinc-500 text-sm dark:text-zinc-400">No notes found.</p>}
           </div>
+
+          <Pagination page={page} totalPages={totalPages} />
+
+          <Link href="/android/archive" className="mt-10 inline-block text-sm font-semibold text-zinc-950 hover:underline dark:text-zinc-50">
+            Browse the full archive by date and tag
+          </Link>
         </section>
       </div>
     </main>
   );
 }
-
-function NoteCard({ title, date, tags, desc, href }: { title: string; date: string; tags: string[]; desc: string; href: string }) {
-  return (
-    <Link href={href} className="group block border-t border-zinc-200 pt-5 dark:border-zinc-800">
-      <div className="mb-4">
-        <h3 className="text-2xl font-semibold leading-tight tracking-tight text-zinc-950 group-hover:underline dark:text-zinc-50">
-          {title}
-        </h3>
-        <time dateTime={date} className="mt-2 block font-mono text-xs text-zinc-400 dark:text-zinc-500">
-          {date}
-        </time>
-      </div>
-      
-      <div className="mb-4 flex flex-wrap gap-2">
-        {tags.map(tag => (
-          <span key={tag} className={tag.toLowerCase().includes("android") ? "font-mono text-xs font-bold uppercase tracking-widest text-android" : "font-mono text-xs font-bold uppercase tracking-widest text-zinc-400 dark:text-zinc-500"}>
-            {tag}
-          </span>
-        ))}
-      </div>
-      
-      <p className="text-base leading-7 text-zinc-600 dark:text-zinc-400">
-        {desc}
-      </p>
-    </Link>
-  );
-}
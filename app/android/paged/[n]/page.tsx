@@ -0,0 +1,127 @@
+import Link from "next/link";
+import { notFound, permanentRedirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import type { Metadata } from "next";
+import { getPaginatedPosts, POSTS_PER_PAGE, getSortedPostsData } from "@/lib/posts";
+import { SiteHeader } from "@/app/components/SiteHeader";
+import { JsonLd } from "@/app/components/JsonLd";
+import { notesPageStructuredData } from "@/lib/structured-data";
+import { NoteCard } from "@/app/components/NoteCard";
+import { Pagination } from "@/app/components/Pagination";
+
+type NotesPageProps = {
+  params: Promise<{
+    n: string;
+  }>;
+};
+
+export function generateStaticParams() {
+  const totalPages = Math.ceil(getSortedPostsData().length / POSTS_PER_PAGE);
+
+  // Page 1 is /android itself.
+  return Array.from({ length: Math.max(0, totalPages - 1) }, (_, index) => ({
+    n: String(index + 2),
+  }));
+}
+
+export async function generateMetadata({ params }: NotesPageProps): Promise<Metadata> {
+  const { n } = await params;
+  const data = getPaginatedPosts(Number(n));
+
+  if (!data) {
+    return {
+      title: "Page Not Found",
+    };
+  }
+
+  const title = `Android Engineering Notes – Page ${data.page} of ${data.totalPages} | Davide Agostini`;
+  const description = `Older Android engineering notes by Davide Agostini, page ${data.page} of ${data.totalPages}.`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `/android/page/${data.page}`,
+    },
+    openGraph: {
+      title,
+      description,
+      url: `https://davideagostini.com/android/page/${data.page}`,
+      type: "website",
+      siteName: "Davide Agostini",
+      images: [{
+        url: "/android/opengraph-image",
+        width: 1200,
+        height: 630,
+        alt: "Android Engineering Notes"
+      }]
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      creator: "@davideagostini",
+      images: ["/android/opengraph-image"]
+    }
+  };
+}
+
+export default async function NotesPage({ params }: NotesPageProps) {
+  const { n } = await params;
+  const pageNumber = Number(n);
+
+  if (pageNumber === 1) {
+    permanentRedirect("/android");
+  }
+
+  const data = getPaginatedPosts(pageNumber);
+
+  if (!data) {
+    notFound();
+  }
+
+  const { posts, page, totalPages } = data;
+
+  const jsonLd = notesPageStructuredData(data);
+
+  return (
+    <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
+      <JsonLd data={jsonLd} />
+
+      <div className="mx-auto max-w-[980px]">
+        <SiteHeader />
+
+        <Link href="/android" className="mb-12 inline-flex items-center gap-1 text-sm font-semibold text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50">
+          <ArrowLeft className="h-4 w-4" /> Back to Android notes
+        </Link>
+
+        <header className="mb-16 max-w-[720px]">
+          <p className="mb-5 font-mono text-xs font-bold uppercase tracking-widest text-android">
+            Page {page} of {totalPages}
+          </p>
+          <h1 className="text-5xl font-semibold leading-[1.02] tracking-tight text-zinc-950 dark:text-zinc-50 sm:text-6xl">
+            Android Engineering Notes
+          </h1>
+        </header>
+
+        <section>
+          <div className="grid gap-x-10 gap-y-10 md:grid-cols-2">
+            {posts.map((post) => (
+              <NoteCard
+                key={post.id}
+                href={`/android/${post.id}`}
+                date={post.date}
+                title={post.title}
+                tags={post.tags}
+                desc={post.description}
+                readingMinutes={post.readingStats.readingMinutes}
+              />
+            ))}
+          </div>
+
+          <Pagination page={page} totalPages={totalPages} />
+        </section>
+      </div>
+    </main>
+  );
+}
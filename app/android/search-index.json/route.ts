@@ -0,0 +1,8 @@
+import { getSearchDocuments } from '@/lib/posts'
+
+// Generated once at build time and served as a static asset.
+export const dynamic = 'force-static'
+
+export function GET() {
+    return Response.json(getSearchDocuments())
+}
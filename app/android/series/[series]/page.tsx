@@ -0,0 +1,131 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import type { Metadata } from "next";
+import { getAllSeries, getSeriesData } from "@/lib/posts";
+import { SiteHeader } from "@/app/components/SiteHeader";
+import { JsonLd } from "@/app/components/JsonLd";
+import { seriesStructuredData } from "@/lib/structured-data";
+import { SeriesProgress } from "@/app/components/SeriesNavigator";
+
+type SeriesPageProps = {
+  params: Promise<{
+    series: string;
+  }>;
+};
+
+export function generateStaticParams() {
+  return getAllSeries().map((item) => ({
+    series: item.slug,
+  }));
+}
+
+export async function generateMetadata({ params }: SeriesPageProps): Promise<Metadata> {
+  const { series: slug } = await params;
+  const series = getSeriesData(slug);
+
+  if (!series) {
+    return {
+      title: "Series Not Found",
+    };
+  }
+
+  const title = `${series.title} | Android Engineering Notes`;
+
+  return {
+    title,
+    description: series.description,
+    alternates: {
+      canonical: `/android/series/${series.slug}`,
+    },
+    openGraph: {
+      title,
+      description: series.description,
+      url: `https://davideagostini.com/android/series/${series.slug}`,
+      type: "website",
+      siteName: "Davide Agostini",
+      images: [{
+        url: "/android/opengraph-image",
+        width: 1200,
+        height: 630,
+        alt: "Android Engineering Notes"
+      }]
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description: series.description,
+      creator: "@davideagostini",
+      images: ["/android/opengraph-image"]
+    }
+  };
+}
+
+export default async function SeriesPage({ params }: SeriesPageProps) {
+  const { series: slug } = await params;
+  const series = getSeriesData(slug);
+
+  if (!series) {
+    notFound();
+  }
+
+  const jsonLd = seriesStructuredData(series);
+
+  return (
+    <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
+      <JsonLd data={jsonLd} />
+
+      <div className="mx-auto max-w-[980px]">
+        <SiteHeader />
+
+        <Link href="/android" className="mb-12 inline-flex items-center gap-1 text-sm font-semibold text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50">
+          <ArrowLeft className="h-4 w-4" /> Back to Android notes
+        </Link>
+
+        <header className="mb-20 max-w-[720px]">
+          <p className="mb-5 font-mono text-xs font-bold uppercase tracking-widest text-android">
+            Series
+          </p>
+          <h1 className="mb-6 text-5xl font-semibold leading-[1.02] tracking-tight text-zinc-950 dark:text-zinc-50 sm:text-6xl">
+            {series.title}
+          </h1>
+          <p className="mb-10 max-w-[660px] text-xl leading-8 text-zinc-700 dark:text-zinc-300">
+            {series.description}
+          </p>
+          <SeriesProgress
+            current={series.parts.length}
+            total={series.totalParts}
+            label={`${series.parts.length} of ${series.totalParts} parts published`}
+          />
+        </header>
+
+        <section>
+          <h2 className="mb-8 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+            Parts
+          </h2>
+
+          <ol className="max-w-[720px] space-y-8">
+            {series.parts.map((part) => (
+              <li key={part.id} className="border-t border-zinc-200 pt-5 dark:border-zinc-800">
+                <Link href={`/android/${part.id}`} className="group block">
+                  <span className="mb-2 block font-mono text-xs font-bold uppercase tracking-widest text-zinc-400 dark:text-zinc-500">
+                    Part {part.order}
+                  </span>
+                  <span className="block text-2xl font-semibold leading-tight tracking-tight text-zinc-950 group-hover:underline dark:text-zinc-50">
+                    {part.title}
+                  </span>
+                  <time dateTime={part.date} className="mt-2 block font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                    {part.date}
+                  </time>
+                  <span className="mt-4 block text-base leading-7 text-zinc-600 dark:text-zinc-400">
+                    {part.description}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,123 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import type { Metadata } from "next";
+import { getAllTags, getTagData, isTagIndexed } from "@/lib/posts";
+import { SiteHeader } from "@/app/components/SiteHeader";
+import { JsonLd } from "@/app/components/JsonLd";
+import { tagStructuredData } from "@/lib/structured-data";
+import { NoteCard } from "@/app/components/NoteCard";
+
+type TagPageProps = {
+  params: Promise<{
+    tag: string;
+  }>;
+};
+
+export function generateStaticParams() {
+  return getAllTags().map((tag) => ({
+    tag: tag.slug,
+  }));
+}
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const { tag: slug } = await params;
+  const data = getTagData(slug);
+
+  if (!data) {
+    return {
+      title: "Tag Not Found",
+    };
+  }
+
+  const { tag } = data;
+  const title = `${tag.name} | Android Engineering Notes`;
+
+  return {
+    title,
+    description: tag.description,
+    alternates: {
+      canonical: `/android/tags/${tag.slug}`,
+    },
+    ...(!isTagIndexed(tag) && { robots: { index: false, follow: true } }),
+    openGraph: {
+      title,
+      description: tag.description,
+      url: `https://davideagostini.com/android/tags/${tag.slug}`,
+      type: "website",
+      siteName: "Davide Agostini",
+      images: [{
+        url: "/android/opengraph-image",
+        width: 1200,
+        height: 630,
+        alt: "Android Engineering Notes"
+      }]
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description: tag.description,
+      creator: "@davideagostini",
+      images: ["/android/opengraph-image"]
+    }
+  };
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { tag: slug } = await params;
+  const data = getTagData(slug);
+
+  if (!data) {
+    notFound();
+  }
+
+  const { tag, posts } = data;
+
+  const jsonLd = tagStructuredData(data);
+
+  return (
+    <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
+      <JsonLd data={jsonLd} />
+
+      <div className="mx-auto max-w-[980px]">
+        <SiteHeader />
+
+        <Link href="/android" className="mb-12 inline-flex items-center gap-1 text-sm font-semibold text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50">
+          <ArrowLeft className="h-4 w-4" /> Back to Android notes
+        </Link>
+
+        <header className="mb-24 max-w-[720px]">
+          <p className="mb-5 font-mono text-xs font-bold uppercase tracking-widest text-android">
+            Tag
+          </p>
+          <h1 className="mb-6 text-5xl font-semibold leading-[1.02] tracking-tight text-zinc-950 dark:text-zinc-50 sm:text-6xl">
+            {tag.name}
+          </h1>
+          <p className="max-w-[660px] text-xl leading-8 text-zinc-700 dark:text-zinc-300">
+            {tag.description}
+          </p>
+        </header>
+
+        <section>
+          <h2 className="mb-8 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+            {posts.length === 1 ? "1 note" : `${posts.length} notes`}
+          </h2>
+
+          <div className="grid gap-x-10 gap-y-10 md:grid-cols-2">
+            {posts.map((post) => (
+              <NoteCard
+                key={post.id}
+                href={`/android/${post.id}`}
+                date={post.date}
+                title={post.title}
+                tags={post.tags}
+                desc={post.description}
+                readingMinutes={post.readingStats.readingMinutes}
+              />
+            ))}
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
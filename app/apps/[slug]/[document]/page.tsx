@@ -0,0 +1,117 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { ArrowLeft } from "lucide-react";
+import { SiteHeader } from "@/app/components/SiteHeader";
+import { JsonLd } from "@/app/components/JsonLd";
+import { appDocumentStructuredData } from "@/lib/structured-data";
+import { getAppOgImagePath } from "@/lib/apps";
+import { getAppDocument, getAppDocumentOwner, getAppDocuments, getAppDocumentSlugs } from "@/lib/app-documents";
+
+type AppDocumentPageProps = {
+  params: Promise<{
+    slug: string;
+    document: string;
+  }>;
+};
+
+export function generateStaticParams() {
+  return getAppDocumentSlugs().flatMap((slug) =>
+    getAppDocuments(slug).map((document) => ({
+      slug,
+      document: document.kind,
+    })),
+  );
+}
+
+export async function generateMetadata({ params }: AppDocumentPageProps): Promise<Metadata> {
+  const { slug, document: kind } = await params;
+  const document = await getAppDocument(slug, kind);
+
+  if (!document) {
+    return {};
+  }
+
+  const { app, name } = getAppDocumentOwner(slug);
+  const title = `${document.label} – ${name} | Davide Agostini`;
+  const description = `${document.label} for ${name}, an app by Davide Agostini.`;
+  const ogImageUrl = app ? getAppOgImagePath(app) : "/apps/opengraph-image";
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: document.href,
+    },
+    openGraph: {
+      title,
+      description,
+      url: `https://davideagostini.com${document.href}`,
+      type: "article",
+      siteName: "Davide Agostini",
+      ...(document.lastUpdated && { modifiedTime: document.lastUpdated }),
+      images: [
+        {
+          url: ogImageUrl,
+          width: 1200,
+          height: 630,
+          alt: app ? `${app.name} - ${app.tagline}` : `${name} by Davide Agostini`,
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      creator: "@davideagostini",
+      images: [ogImageUrl],
+    },
+  };
+}
+
+export default async function AppDocumentPage({ params }: AppDocumentPageProps) {
+  const { slug, document: kind } = await params;
+  const document = await getAppDocument(slug, kind);
+
+  if (!document) {
+    notFound();
+  }
+
+  const owner = getAppDocumentOwner(slug);
+  const jsonLd = appDocumentStructuredData(owner, document);
+
+  return (
+    <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
+      <JsonLd data={jsonLd} />
+
+      <div className="mx-auto max-w-[980px]">
+        <SiteHeader />
+
+        <article className="mx-auto max-w-[680px]">
+          <header className="mb-12">
+            <Link
+              href={owner.app ? `/apps/${owner.slug}` : "/apps"}
+              className="mb-10 inline-flex items-center gap-2 text-sm font-semibold text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              {owner.app ? owner.name : "Apps"}
+            </Link>
+            <p className="mb-5 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+              {document.label}
+            </p>
+            <h1 className="mb-4 text-3xl font-semibold leading-tight tracking-tight text-zinc-950 dark:text-zinc-50 sm:text-4xl">
+              {document.title}
+            </h1>
+            {document.lastUpdated && (
+              <p className="font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                Last updated <time dateTime={document.lastUpdated}>{document.lastUpdated}</time>
+              </p>
+            )}
+          </header>
+
+          <div className="prose prose-zinc prose-sm max-w-none dark:prose-invert sm:prose-base" dangerouslySetInnerHTML={{ __html: document.contentHtml }} />
+        </article>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,129 @@
+import { OG_IMAGE_SIZE, renderOgImage } from "@/lib/og";
+import { APP_ACCENTS } from "@/lib/app-accents";
+import { apps, getAppBySlug, getAppIconDataUrl } from "@/lib/apps";
+
+export const alt = "App by Davide Agostini";
+export const size = OG_IMAGE_SIZE;
+export const contentType = "image/png";
+
+// Prerendered at build time: the icons (public/) and fonts (assets/fonts) are read from
+// disk, and a serverless deploy doesn't ship either next to the route.
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return apps.map((app) => ({
+    slug: app.slug,
+  }));
+}
+
+export default async function OpenGraphImage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const app = getAppBySlug(slug);
+
+  const accent = (app && APP_ACCENTS[app.accent]) ?? APP_ACCENTS["text-android"];
+  const chips = app ? [app.platform, app.price, app.category] : [];
+
+  return renderOgImage(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          position: "relative",
+          background: "#0e0e0e",
+          color: "#ffffff",
+          fontFamily: "JetBrains Mono",
+          border: "2px solid #1f1f1f",
+          borderTop: `12px solid ${accent.background}`,
+          padding: "56px 64px",
+          boxSizing: "border-box",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            width: "100%",
+            height: "100%",
+            justifyContent: "space-between",
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: 48 }}>
+            {app && (
+              <img
+                src={getAppIconDataUrl(app)}
+                width={220}
+                height={220}
+                alt=""
+                style={{ borderRadius: 48 }}
+              />
+            )}
+
+            <div style={{ display: "flex", flexDirection: "column", flex: 1, gap: 20 }}>
+              <div
+                style={{
+                  display: "flex",
+                  fontSize: 72,
+                  lineHeight: 1.05,
+                  fontWeight: 700,
+                  letterSpacing: "-0.03em",
+                }}
+              >
+                {app?.name ?? "Apps"}
+              </div>
+              <div
+                style={{
+                  display: "flex",
+                  fontSize: 30,
+                  lineHeight: 1.3,
+                  color: "#d4d4d8",
+                  whiteSpace: "pre-wrap",
+                  wordBreak: "break-word",
+                }}
+              >
+                {app?.tagline ?? "Small products, built with care."}
+              </div>
+            </div>
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "flex-end",
+              width: "100%",
+            }}
+          >
+            <div style={{ display: "flex", gap: 14 }}>
+              {chips.map((chip, index) => (
+                <div
+                  key={chip}
+                  style={{
+                    display: "flex",
+                    padding: "8px 16px",
+                    fontSize: 20,
+                    fontWeight: 700,
+                    textTransform: "uppercase",
+                    background: index === 0 ? accent.background : "#27272a",
+                    color: index === 0 ? accent.foreground : "#ffffff",
+                  }}
+                >
+                  {chip}
+                </div>
+              ))}
+            </div>
+
+            <div style={{ display: "flex", fontSize: 22, color: "#ffffff", fontWeight: 400 }}>
+              davideagostini.com/apps
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  );
+}
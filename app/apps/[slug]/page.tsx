@@ -4,7 +4,10 @@ import { notFound } from "next/navigation";
 import type { Metadata } from "next";
 import { ArrowLeft, ArrowUpRight } from "lucide-react";
 import { SiteHeader } from "@/app/components/SiteHeader";
-import { apps, getAppBySlug } from "@/lib/apps";
+import { JsonLd } from "@/app/components/JsonLd";
+import { appStructuredData } from "@/lib/structured-data";
+import { apps, getAppBySlug, getAppOgImagePath } from "@/lib/apps";
+import { getAppDocuments } from "@/lib/app-documents";
 
 type AppDetailPageProps = {
   params: Promise<{
@@ -26,6 +29,8 @@ export async function generateMetadata({ params }: AppDetailPageProps): Promise<
     return {};
   }
 
+  const ogImageUrl = getAppOgImagePath(app);
+
   return {
     title: `${app.name} | Davide Agostini`,
     description: app.description,
@@ -40,19 +45,19 @@ export async function generateMetadata({ params }: AppDetailPageProps): Promise<
       siteName: "Davide Agostini",
       images: [
         {
-          url: app.icon,
-          width: 512,
-          height: 512,
-          alt: `${app.name} app icon`,
+          url: ogImageUrl,
+          width: 1200,
+          height: 630,
+          alt: `${app.name} - ${app.tagline}`,
         },
       ],
     },
     twitter: {
-      card: "summary",
+      card: "summary_large_image",
       title: `${app.name} | Davide Agostini`,
       description: app.description,
       creator: "@davideagostini",
-      images: [app.icon],
+      images: [ogImageUrl],
     },
   };
 }
@@ -65,70 +70,12 @@ export default async function AppDetailPage({ params }: AppDetailPageProps) {
     notFound();
   }
 
-  const pageUrl = `https://davideagostini.com/apps/${app.slug}`;
-  const jsonLd = [
-    {
-      "@context": "https://schema.org",
-      "@type": "BreadcrumbList",
-      itemListElement: [
-        {
-          "@type": "ListItem",
-          position: 1,
-          name: "Apps",
-          item: "https://davideagostini.com/apps",
-        },
-        {
-          "@type": "ListItem",
-          position: 2,
-          name: app.name,
-          item: pageUrl,
-        },
-      ],
-    },
-    {
-      "@context": "https://schema.org",
-      "@type": "SoftwareApplication",
-      name: app.name,
-      headline: app.tagline,
-      description: app.description,
-      applicationCategory: app.category,
-      operatingSystem: app.platform,
-      isAccessibleForFree: app.price.toLowerCase() === "free",
-      featureList: app.highlights,
-      offers: {
-        "@type": "Offer",
-        price: "0",
-        priceCurrency: "EUR",
-      },
-      author: {
-        "@type": "Person",
-        name: "Davide Agostini",
-        url: "https://davideagostini.com",
-      },
-      url: pageUrl,
-      image: `https://davideagostini.com${app.icon}`,
-      sameAs: app.links.map((link) => link.href),
-    },
-    {
-      "@context": "https://schema.org",
-      "@type": "FAQPage",
-      mainEntity: app.faq.map((item) => ({
-        "@type": "Question",
-        name: item.question,
-        acceptedAnswer: {
-          "@type": "Answer",
-          text: item.answer,
-        },
-      })),
-    },
-  ];
+  const documents = getAppDocuments(app.slug);
+  const jsonLd = appStructuredData(app);
 
   return (
     <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
-      <script
-        type="application/ld+json"
-        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-      />
+      <JsonLd data={jsonLd} />
 
       <div className="mx-auto max-w-[980px]">
         <SiteHeader />
@@ -165,19 +112,21 @@ export default async function AppDetailPage({ params }: AppDetailPageProps) {
                 {app.tagline}
               </p>
 
-              <div className="mt-8 flex flex-wrap gap-3">
-                {app.links.map((link) => (
-                  <Link
-                    key={link.href}
-                    href={link.href}
-                    target="_blank"
-                    className="inline-flex items-center gap-2 border border-zinc-200 px-4 py-2 text-sm font-semibold text-zinc-950 hover:border-zinc-950 dark:border-zinc-800 dark:text-zinc-50 dark:hover:border-zinc-50"
-                  >
-                    {link.label}
-                    <ArrowUpRight className="h-4 w-4" />
-                  </Link>
-                ))}
-              </div>
+              {app.links.length > 0 && (
+                <div className="mt-8 flex flex-wrap gap-3">
+                  {app.links.map((link) => (
+                    <Link
+                      key={link.href}
+                      href={link.href}
+                      target="_blank"
+                      className="inline-flex items-center gap-2 border border-zinc-200 px-4 py-2 text-sm font-semibold text-zinc-950 hover:border-zinc-950 dark:border-zinc-800 dark:text-zinc-50 dark:hover:border-zinc-50"
+                    >
+                      {link.label}
+                      <ArrowUpRight className="h-4 w-4" />
+                    </Link>
+                  ))}
+                </div>
+              )}
             </div>
           </header>
 
@@ -207,6 +156,26 @@ export default async function AppDetailPage({ params }: AppDetailPageProps) {
                   {app.availability}
                 </p>
               </div>
+
+              {documents.length > 0 && (
+                <div>
+                  <h2 className="mb-6 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+                    Legal &amp; support
+                  </h2>
+                  <ul className="space-y-3">
+                    {documents.map((document) => (
+                      <li key={document.kind}>
+                        <Link
+                          href={document.href}
+                          className="text-base font-semibold text-zinc-950 hover:underline dark:text-zinc-50"
+                        >
+                          {document.label}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </section>
 
             <section className="space-y-14">
@@ -0,0 +1,71 @@
+import { OG_IMAGE_SIZE, renderOgImage } from "@/lib/og";
+import { APP_ACCENTS } from "@/lib/app-accents";
+import { apps, getAppIconDataUrl } from "@/lib/apps";
+
+export const alt = "Apps by Davide Agostini";
+export const size = OG_IMAGE_SIZE;
+export const contentType = "image/png";
+
+export default function OpenGraphImage() {
+  const platforms = [...new Set(apps.map((app) => app.platform))];
+
+  return renderOgImage(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          background: "#ffffff",
+          color: "#09090b",
+          padding: "72px",
+          fontFamily: "Inter",
+        }}
+      >
+        <div style={{ display: "flex", color: "#3ddc84", fontSize: 28, fontWeight: 700 }}>
+          Apps
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", gap: 28 }}>
+          <div style={{ display: "flex", maxWidth: 900, fontSize: 78, lineHeight: 1.05, fontWeight: 800, letterSpacing: "-0.04em" }}>
+            Small products, built with care.
+          </div>
+          <div style={{ display: "flex", gap: 14 }}>
+            {platforms.map((platform) => {
+              const accent = APP_ACCENTS[apps.find((app) => app.platform === platform)?.accent ?? ""] ?? APP_ACCENTS["text-android"];
+              return (
+                <div
+                  key={platform}
+                  style={{
+                    display: "flex",
+                    padding: "8px 16px",
+                    fontSize: 22,
+                    fontWeight: 700,
+                    textTransform: "uppercase",
+                    background: accent.background,
+                    color: accent.foreground,
+                  }}
+                >
+                  {platform}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 28 }}>
+          {apps.map((app) => (
+            <img
+              key={app.slug}
+              src={getAppIconDataUrl(app)}
+              width={120}
+              height={120}
+              alt=""
+              style={{ borderRadius: 28 }}
+            />
+          ))}
+        </div>
+      </div>
+    )
+  );
+}
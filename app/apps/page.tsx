@@ -3,23 +3,28 @@ import Link from "next/link";
 import type { Metadata } from "next";
 import { ArrowRight } from "lucide-react";
 import { SiteHeader } from "@/app/components/SiteHeader";
-import { apps } from "@/lib/apps";
+import { JsonLd } from "@/app/components/JsonLd";
+import { appsCollectionStructuredData } from "@/lib/structured-data";
+import { apps, formatAppPlatforms } from "@/lib/apps";
+
+const platforms = formatAppPlatforms(apps);
+const description = `Small apps built by Davide Agostini for ${platforms}.`;
 
 export const metadata: Metadata = {
   title: "Apps | Davide Agostini",
-  description: "Small apps built by Davide Agostini for Android and macOS.",
+  description,
   alternates: {
     canonical: "/apps",
   },
   openGraph: {
     title: "Apps | Davide Agostini",
-    description: "Small apps built by Davide Agostini for Android and macOS.",
+    description,
     url: "https://davideagostini.com/apps",
     type: "website",
     siteName: "Davide Agostini",
     images: [
       {
-        url: "/opengraph-image",
+        url: "/apps/opengraph-image",
         width: 1200,
         height: 630,
         alt: "Apps by Davide Agostini",
@@ -29,50 +34,18 @@ export const metadata: Metadata = {
   twitter: {
     card: "summary_large_image",
     title: "Apps | Davide Agostini",
-    description: "Small apps built by Davide Agostini for Android and macOS.",
+    description,
     creator: "@davideagostini",
-    images: ["/opengraph-image"],
+    images: ["/apps/opengraph-image"],
   },
 };
 
 export default function AppsPage() {
-  const jsonLd = {
-    "@context": "https://schema.org",
-    "@type": "CollectionPage",
-    name: "Apps by Davide Agostini",
-    description: "A collection of Android and macOS apps built by Davide Agostini.",
-    url: "https://davideagostini.com/apps",
-    author: {
-      "@type": "Person",
-      name: "Davide Agostini",
-      url: "https://davideagostini.com",
-    },
-    mainEntity: {
-      "@type": "ItemList",
-      itemListElement: apps.map((app, index) => ({
-        "@type": "ListItem",
-        position: index + 1,
-        url: `https://davideagostini.com/apps/${app.slug}`,
-        name: app.name,
-        item: {
-          "@type": "SoftwareApplication",
-          name: app.name,
-          description: app.description,
-          applicationCategory: app.category,
-          operatingSystem: app.platform,
-          isAccessibleForFree: app.price.toLowerCase() === "free",
-          url: `https://davideagostini.com/apps/${app.slug}`,
-        },
-      })),
-    },
-  };
+  const jsonLd = appsCollectionStructuredData(apps);
 
   return (
     <main className="min-h-screen px-6 py-8 md:px-10 md:py-12">
-      <script
-        type="application/ld+json"
-        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-      />
+      <JsonLd data={jsonLd} />
 
       <div className="mx-auto max-w-[980px]">
         <SiteHeader />
@@ -85,8 +58,7 @@ export default function AppsPage() {
             Small products, built with care.
           </h1>
           <p className="max-w-[660px] text-xl leading-8 text-zinc-700 dark:text-zinc-300">
-            A compact collection of apps I build for Android, macOS, and the workflows I care
-            about.
+            A compact collection of apps I build for {platforms}, around the workflows I care about.
           </p>
         </header>
 
@@ -0,0 +1,14 @@
+import { serializeStructuredData, type StructuredData } from "@/lib/structured-data";
+
+type JsonLdProps = {
+  data: StructuredData | StructuredData[];
+};
+
+export function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeStructuredData(data) }}
+    />
+  );
+}
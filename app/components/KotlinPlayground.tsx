@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Pencil, Play, RotateCcw } from "lucide-react";
+import {
+  joinPlaygroundSource,
+  KotlinExecutorUnavailableError,
+  splitPlaygroundSource,
+  type KotlinExecutor,
+  type KotlinRunResult,
+} from "@/lib/kotlin-playground";
+
+type KotlinPlaygroundProps = {
+  /** The `.kotlin-runnable` wrapper around the highlighted block. */
+  container: HTMLElement;
+  executor: KotlinExecutor;
+};
+
+type RunState =
+  | { status: "idle" }
+  | { status: "running" }
+  | { status: "done"; result: KotlinRunResult }
+  | { status: "unavailable"; message: string };
+
+function countLines(text: string) {
+  return text.split("\n").length - 1;
+}
+
+/**
+ * Run/edit controls for a ```kotlin runnable block. The highlighted block stays in
+ * place and is only swapped for a textarea while editing, so a failed run or an
+ * unreachable compile server still leaves the static snippet.
+ */
+export function KotlinPlayground({ container, executor }: KotlinPlaygroundProps) {
+  const [source] = useState(() => splitPlaygroundSource(container.dataset.kotlinSource ?? ""));
+  const [code, setCode] = useState(source.visible);
+  const [editing, setEditing] = useState(false);
+  const [run, setRun] = useState<RunState>({ status: "idle" });
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    container.toggleAttribute("data-editing", editing);
+  }, [container, editing]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  async function execute() {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRun({ status: "running" });
+
+    try {
+      const result = await executor.run(joinPlaygroundSource({ ...source, visible: code }), controller.signal);
+      setRun({ status: "done", result });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setRun({
+        status: "unavailable",
+        message:
+          error instanceof KotlinExecutorUnavailableError
+            ? `${error.message}. The snippet above is unchanged and can still be copied.`
+            : "Running the snippet failed unexpectedly.",
+      });
+    }
+  }
+
+  function reset() {
+    setCode(source.visible);
+    setEditing(false);
+    setRun({ status: "idle" });
+  }
+
+  // Compiler lines count the hidden setup too; report them relative to what the reader sees.
+  const hiddenLines = countLines(source.prefix);
+
+  return (
+    <div className="kotlin-playground">
+      {editing && (
+        <textarea
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+              event.preventDefault();
+              execute();
+            }
+          }}
+          rows={Math.max(4, countLines(code) + 2)}
+          spellCheck={false}
+          aria-label="Kotlin code"
+          className="kotlin-playground-editor"
+        />
+      )}
+
+      <div className="kotlin-playground-toolbar">
+        <button type="button" onClick={execute} disabled={run.status === "running"}>
+          {run.status === "running" ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />}
+          Run
+        </button>
+        {editing ? (
+          <button type="button" onClick={reset}>
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </button>
+        ) : (
+          <button type="button" onClick={() => setEditing(true)}>
+            <Pencil className="h-3 w-3" />
+            Edit
+          </button>
+        )}
+        {editing && <span className="kotlin-playground-hint">⌘/Ctrl + Enter to run</span>}
+      </div>
+
+      {run.status === "unavailable" && (
+        <p role="status" className="kotlin-playground-message">
+          {run.message}
+        </p>
+      )}
+
+      {run.status === "done" && (
+        <pre role="status" aria-label="Program output" className="kotlin-playground-output">
+          {run.result.diagnostics.map((diagnostic, index) => (
+            <span key={index} data-severity={diagnostic.severity}>
+              {diagnostic.line !== undefined && `Line ${Math.max(1, diagnostic.line - hiddenLines)}: `}
+              {diagnostic.message}
+              {"\n"}
+            </span>
+          ))}
+          {run.result.stdout}
+          {run.result.stderr && <span data-severity="error">{run.result.stderr}</span>}
+          {run.result.exception && <span data-severity="error">{run.result.exception}</span>}
+          {!run.result.stdout &&
+            !run.result.stderr &&
+            !run.result.exception &&
+            run.result.diagnostics.length === 0 &&
+            "Program finished with no output."}
+        </pre>
+      )}
+    </div>
+  );
+}
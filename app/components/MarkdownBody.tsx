@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Check, Copy } from "lucide-react";
+import { getKotlinExecutor } from "@/lib/kotlin-playground";
+import { KotlinPlayground } from "@/app/components/KotlinPlayground";
+
+type MarkdownBodyProps = {
+  html: string;
+  className?: string;
+};
+
+/** Source of a highlighted block as it should be pasted: removed diff lines are left out. */
+function getCodeText(figure: HTMLElement) {
+  const lines = [...figure.querySelectorAll<HTMLElement>("pre [data-line]")];
+  if (lines.length === 0) {
+    return figure.querySelector("pre")?.textContent ?? "";
+  }
+
+  return lines
+    .filter((line) => !line.classList.contains("remove"))
+    .map((line) => (line.textContent ?? "").trimEnd())
+    .join("\n")
+    .trimEnd();
+}
+
+function CopyCodeButton({ figure }: { figure: HTMLElement }) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = window.setTimeout(() => setCopied(false), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [copied]);
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(getCodeText(figure));
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied (insecure origin, permissions); the code is still selectable.
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={copy}
+      className="code-copy-button"
+      aria-label={copied ? "Code copied" : "Copy code"}
+      data-copied={copied || undefined}
+    >
+      {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+      {copied ? "Copied" : "Copy"}
+    </button>
+  );
+}
+
+// Inlined at build time; null keeps ```kotlin runnable blocks static.
+const kotlinExecutor = getKotlinExecutor();
+
+/**
+ * Rendered markdown with a copy button on every code block and, when a compile server
+ * is configured, a playground under runnable Kotlin blocks. The HTML comes from
+ * lib/markdown.ts; the controls are portalled into it after hydration.
+ */
+export function MarkdownBody({ html, className }: MarkdownBodyProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [figures, setFigures] = useState<HTMLElement[]>([]);
+  const [runnables, setRunnables] = useState<HTMLElement[]>([]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setFigures([...container.querySelectorAll<HTMLElement>("figure[data-rehype-pretty-code-figure]")]);
+    setRunnables(kotlinExecutor ? [...container.querySelectorAll<HTMLElement>(".kotlin-runnable")] : []);
+  }, [html]);
+
+  return (
+    <>
+      <div ref={containerRef} className={className} dangerouslySetInnerHTML={{ __html: html }} />
+      {figures.map((figure, index) => createPortal(<CopyCodeButton figure={figure} />, figure, `copy-${index}`))}
+      {kotlinExecutor &&
+        runnables.map((runnable, index) =>
+          createPortal(<KotlinPlayground container={runnable} executor={kotlinExecutor} />, runnable, `kotlin-${index}`),
+        )}
+    </>
+  );
+}
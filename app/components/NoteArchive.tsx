@@ -0,0 +1,143 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { normalizeTag } from "@/lib/tags";
+
+export type ArchiveEntry = {
+  id: string;
+  title: string;
+  date: string;
+  tags: string[];
+};
+
+export type ArchiveGroup = {
+  year: string;
+  months: {
+    key: string;
+    label: string;
+    posts: ArchiveEntry[];
+  }[];
+};
+
+export type ArchiveTag = {
+  slug: string;
+  name: string;
+  count: number;
+};
+
+type NoteArchiveProps = {
+  groups: ArchiveGroup[];
+  tags: ArchiveTag[];
+};
+
+/**
+ * Archive with tag filter chips. The selected tag lives in `?tag=` so filtered
+ * views can be shared and survive reloads.
+ */
+export function FilterableNoteArchive({ groups, tags }: NoteArchiveProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const selected = searchParams.get("tag");
+
+  function selectTag(slug: string | null) {
+    const params = new URLSearchParams(searchParams.toString());
+    if (slug) {
+      params.set("tag", slug);
+    } else {
+      params.delete("tag");
+    }
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }
+
+  const filtered = selected
+    ? groups
+        .map((group) => ({
+          ...group,
+          months: group.months
+            .map((month) => ({
+              ...month,
+              posts: month.posts.filter((post) => post.tags.some((tag) => normalizeTag(tag).slug === selected)),
+            }))
+            .filter((month) => month.posts.length > 0),
+        }))
+        .filter((group) => group.months.length > 0)
+    : groups;
+
+  return (
+    <>
+      <div role="group" aria-label="Filter by tag" className="mb-16 flex flex-wrap gap-2">
+        <TagChip label="All" active={!selected} onClick={() => selectTag(null)} />
+        {tags.map((tag) => (
+          <TagChip
+            key={tag.slug}
+            label={`${tag.name} (${tag.count})`}
+            active={selected === tag.slug}
+            onClick={() => selectTag(selected === tag.slug ? null : tag.slug)}
+          />
+        ))}
+      </div>
+
+      <NoteArchive groups={filtered} />
+    </>
+  );
+}
+
+function TagChip({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      aria-pressed={active}
+      onClick={onClick}
+      className={
+        active
+          ? "rounded-full border border-zinc-950 bg-zinc-950 px-3 py-1 font-mono text-xs font-bold uppercase tracking-widest text-zinc-50 dark:border-zinc-50 dark:bg-zinc-50 dark:text-zinc-950"
+          : "rounded-full border border-zinc-200 px-3 py-1 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 hover:border-zinc-950 hover:text-zinc-950 dark:border-zinc-800 dark:text-zinc-400 dark:hover:border-zinc-50 dark:hover:text-zinc-50"
+      }
+    >
+      {label}
+    </button>
+  );
+}
+
+/** Plain year/month listing; also the server-rendered fallback before search params are available. */
+export function NoteArchive({ groups }: { groups: ArchiveGroup[] }) {
+  if (groups.length === 0) {
+    return <p className="text-sm text-zinc-500 dark:text-zinc-400">No notes match this tag.</p>;
+  }
+
+  return (
+    <div className="space-y-16">
+      {groups.map((group) => (
+        <section key={group.year}>
+          <h2 className="mb-8 text-3xl font-semibold tracking-tight text-zinc-950 dark:text-zinc-50">{group.year}</h2>
+          <div className="space-y-10">
+            {group.months.map((month) => (
+              <div key={month.key} className="grid gap-4 md:grid-cols-[160px_1fr]">
+                <h3 className="font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+                  {month.label}
+                </h3>
+                <ul className="space-y-4">
+                  {month.posts.map((post) => (
+                    <li key={post.id}>
+                      <Link href={`/android/${post.id}`} className="group block">
+                        <span className="block text-base font-semibold leading-6 text-zinc-950 group-hover:underline dark:text-zinc-50">
+                          {post.title}
+                        </span>
+                        <time dateTime={post.date} className="mt-1 block font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                          {post.date}
+                        </time>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
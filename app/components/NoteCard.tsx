@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { normalizeTag } from "@/lib/tags";
+
+type NoteCardProps = {
+  title: string;
+  date: string;
+  tags: string[];
+  desc: string;
+  href: string;
+  readingMinutes?: number;
+};
+
+export function NoteCard({ title, date, tags, desc, href, readingMinutes }: NoteCardProps) {
+  return (
+    <article className="group relative block border-t border-zinc-200 pt-5 dark:border-zinc-800">
+      <div className="mb-4">
+        <h3 className="text-2xl font-semibold leading-tight tracking-tight text-zinc-950 group-hover:underline dark:text-zinc-50">
+          {/* Stretched link keeps the whole card clickable while tags link to their own pages. */}
+          <Link href={href} className="after:absolute after:inset-0">
+            {title}
+          </Link>
+        </h3>
+        <p className="mt-2 font-mono text-xs text-zinc-400 dark:text-zinc-500">
+          <time dateTime={date}>{date}</time>
+          {readingMinutes && <span> · {readingMinutes} min read</span>}
+        </p>
+      </div>
+
+      <div className="relative z-10 mb-4 flex flex-wrap gap-2">
+        {tags.map((tag) => (
+          <TagLink key={tag} tag={tag} />
+        ))}
+      </div>
+
+      <p className="text-base leading-7 text-zinc-600 dark:text-zinc-400">
+        {desc}
+      </p>
+    </article>
+  );
+}
+
+export function TagLink({ tag }: { tag: string }) {
+  const { slug, name } = normalizeTag(tag);
+
+  return (
+    <Link
+      href={`/android/tags/${slug}`}
+      className={slug.includes("android") ? "font-mono text-xs font-bold uppercase tracking-widest text-android hover:underline" : "font-mono text-xs font-bold uppercase tracking-widest text-zinc-400 hover:text-zinc-950 hover:underline dark:text-zinc-500 dark:hover:text-zinc-50"}
+    >
+      {name}
+    </Link>
+  );
+}
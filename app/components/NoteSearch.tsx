@@ -0,0 +1,164 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { Search } from "lucide-react";
+import {
+  SEARCH_INDEX_PATH,
+  highlightTerms,
+  searchDocuments,
+  type SearchDocument,
+} from "@/lib/search";
+
+export function NoteSearch() {
+  const router = useRouter();
+  const listId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [documents, setDocuments] = useState<SearchDocument[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(
+    () => (documents ? searchDocuments(documents, query, 8) : []),
+    [documents, query]
+  );
+
+  // "/" focuses the search box from anywhere on the page, like most docs sites.
+  useEffect(() => {
+    function onKeyDown(event: KeyboardEvent) {
+      const target = event.target as HTMLElement | null;
+      const isTyping = target?.closest("input, textarea, [contenteditable='true']");
+      if (event.key === "/" && !isTyping) {
+        event.preventDefault();
+        inputRef.current?.focus();
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // The index is only fetched once the reader shows intent to search.
+  function loadIndex() {
+    if (documents || failed) return;
+
+    fetch(SEARCH_INDEX_PATH)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Search index request failed: ${res.status}`);
+        return res.json() as Promise<SearchDocument[]>;
+      })
+      .then(setDocuments)
+      .catch(() => setFailed(true));
+  }
+
+  function onKeyDown(event: React.KeyboardEvent<HTMLInputElement>) {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      // With no results there is nothing to move to; keep the index at 0 rather than -1.
+      if (results.length === 0) return;
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === "Enter" && results[activeIndex]) {
+      event.preventDefault();
+      router.push(`/android/${results[activeIndex].document.id}`);
+    } else if (event.key === "Escape") {
+      setQuery("");
+      setActiveIndex(0);
+    }
+  }
+
+  const showResults = query.trim().length > 0;
+
+  return (
+    <div className="relative mb-16 max-w-[720px]">
+      <label className="flex items-center gap-3 border-b border-zinc-300 pb-3 focus-within:border-zinc-950 dark:border-zinc-700 dark:focus-within:border-zinc-50">
+        <Search className="h-5 w-5 shrink-0 text-zinc-400 dark:text-zinc-500" />
+        <span className="sr-only">Search Android notes</span>
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          placeholder="Search notes, APIs, code… (press /)"
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={showResults}
+          aria-controls={listId}
+          aria-activedescendant={showResults && results[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+          onFocus={loadIndex}
+          onChange={(event) => {
+            loadIndex();
+            setQuery(event.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={onKeyDown}
+          className="w-full bg-transparent text-lg text-zinc-950 outline-none placeholder:text-zinc-400 dark:text-zinc-50 dark:placeholder:text-zinc-500"
+        />
+      </label>
+
+      {showResults && (
+        <div className="mt-6">
+          {failed && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">Search is unavailable right now.</p>
+          )}
+          {!failed && !documents && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">Loading search index…</p>
+          )}
+          {documents && results.length === 0 && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">No notes match &quot;{query}&quot;.</p>
+          )}
+
+          <ul id={listId} role="listbox" className="space-y-2">
+            {results.map((result, index) => (
+              <li
+                key={result.document.id}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+              >
+                <Link
+                  href={`/android/${result.document.id}`}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={
+                    index === activeIndex
+                      ? "block border-l-2 border-android bg-zinc-50 px-4 py-3 dark:bg-zinc-900"
+                      : "block border-l-2 border-transparent px-4 py-3"
+                  }
+                >
+                  <span className="block text-base font-semibold leading-6 text-zinc-950 dark:text-zinc-50">
+                    <Highlighted text={result.document.title} query={query} />
+                  </span>
+                  <span className="mt-1 block text-sm leading-6 text-zinc-600 dark:text-zinc-400">
+                    <Highlighted text={result.snippet} query={query} />
+                  </span>
+                  <span className="mt-1 block font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                    {result.document.date}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {highlightTerms(text, query).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-android/30 text-inherit">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import Link from "next/link";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import { getPostsPagePath } from "@/lib/posts";
+
+type PaginationProps = {
+  page: number;
+  totalPages: number;
+};
+
+export function Pagination({ page, totalPages }: PaginationProps) {
+  if (totalPages <= 1) return null;
+
+  const previous = page > 1 ? getPostsPagePath(page - 1) : null;
+  const next = page < totalPages ? getPostsPagePath(page + 1) : null;
+
+  return (
+    <>
+      {/* React hoists these into <head>; crawlers use them to follow the paginated series. */}
+      {previous && <link rel="prev" href={`https://davideagostini.com${previous}`} />}
+      {next && <link rel="next" href={`https://davideagostini.com${next}`} />}
+
+      <nav aria-label="Pagination" className="mt-16 flex items-center justify-between gap-6 border-t border-zinc-200 pt-8 text-sm dark:border-zinc-800">
+        {previous ? (
+          <Link href={previous} className="inline-flex items-center gap-1 font-semibold text-zinc-950 hover:underline dark:text-zinc-50">
+            <ArrowLeft className="h-4 w-4" /> Newer notes
+          </Link>
+        ) : (
+          <span />
+        )}
+
+        <ol className="flex flex-wrap justify-center gap-3 font-mono text-xs">
+          {Array.from({ length: totalPages }, (_, index) => index + 1).map((number) => (
+            <li key={number}>
+              {number === page ? (
+                <span aria-current="page" className="font-bold text-zinc-950 dark:text-zinc-50">
+                  {number}
+                </span>
+              ) : (
+                <Link href={getPostsPagePath(number)} className="text-zinc-500 hover:text-zinc-950 hover:underline dark:text-zinc-400 dark:hover:text-zinc-50">
+                  {number}
+                </Link>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {next ? (
+          <Link href={next} className="inline-flex items-center gap-1 font-semibold text-zinc-950 hover:underline dark:text-zinc-50">
+            Older notes <ArrowRight className="h-4 w-4" />
+          </Link>
+        ) : (
+          <span />
+        )}
+      </nav>
+    </>
+  );
+}
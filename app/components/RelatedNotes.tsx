@@ -0,0 +1,70 @@
+import Link from "next/link";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import type { RelatedPost } from "@/lib/related";
+
+type AdjacentPost = {
+  id: string;
+  title: string;
+};
+
+type RelatedNotesProps = {
+  related: RelatedPost[];
+  previous: AdjacentPost | null;
+  next: AdjacentPost | null;
+};
+
+export function RelatedNotes({ related, previous, next }: RelatedNotesProps) {
+  return (
+    <footer className="mt-20 border-t border-zinc-200 pt-10 dark:border-zinc-800">
+      {related.length > 0 && (
+        <section className="mb-14">
+          <h2 className="mb-8 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+            Related notes
+          </h2>
+          <ul className="grid gap-x-8 gap-y-8 sm:grid-cols-2">
+            {related.map((post) => (
+              <li key={post.id}>
+                <Link href={`/android/${post.id}`} className="group block">
+                  <span className="block text-base font-semibold leading-6 text-zinc-950 group-hover:underline dark:text-zinc-50">
+                    {post.title}
+                  </span>
+                  <time dateTime={post.date} className="mt-1 block font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                    {post.date}
+                  </time>
+                  <span className="mt-2 block text-sm leading-6 text-zinc-600 dark:text-zinc-400">
+                    {post.description}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <nav aria-label="Older and newer notes" className="grid gap-6 sm:grid-cols-2">
+        {previous ? (
+          <Link href={`/android/${previous.id}`} className="group block">
+            <span className="mb-1 inline-flex items-center gap-1 font-mono text-xs text-zinc-400 dark:text-zinc-500">
+              <ArrowLeft className="h-3 w-3" /> Older note
+            </span>
+            <span className="block text-sm font-semibold leading-6 text-zinc-950 group-hover:underline dark:text-zinc-50">
+              {previous.title}
+            </span>
+          </Link>
+        ) : (
+          <span />
+        )}
+        {next && (
+          <Link href={`/android/${next.id}`} className="group block sm:text-right">
+            <span className="mb-1 inline-flex items-center gap-1 font-mono text-xs text-zinc-400 dark:text-zinc-500">
+              Newer note <ArrowRight className="h-3 w-3" />
+            </span>
+            <span className="block text-sm font-semibold leading-6 text-zinc-950 group-hover:underline dark:text-zinc-50">
+              {next.title}
+            </span>
+          </Link>
+        )}
+      </nav>
+    </footer>
+  );
+}
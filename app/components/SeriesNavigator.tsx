@@ -0,0 +1,78 @@
+import Link from "next/link";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import type { SeriesData, SeriesPart } from "@/lib/posts";
+
+type SeriesNavigatorProps = {
+  series: SeriesData;
+  part: SeriesPart;
+  previous: SeriesPart | null;
+  next: SeriesPart | null;
+};
+
+export function SeriesNavigator({ series, part, previous, next }: SeriesNavigatorProps) {
+  return (
+    <nav aria-label={`${series.title} navigation`} className="my-12 border-y border-zinc-200 py-6 dark:border-zinc-800">
+      <div className="mb-4 flex flex-wrap items-baseline justify-between gap-x-6 gap-y-2">
+        <Link
+          href={`/android/series/${series.slug}`}
+          className="text-base font-semibold text-zinc-950 hover:underline dark:text-zinc-50"
+        >
+          {series.title}
+        </Link>
+        <span className="font-mono text-xs font-bold uppercase tracking-widest text-android">
+          Part {part.order} of {series.totalParts}
+        </span>
+      </div>
+
+      <SeriesProgress current={part.order} total={series.totalParts} />
+
+      <div className="mt-6 grid gap-6 sm:grid-cols-2">
+        {previous ? (
+          <SeriesLink part={previous} direction="previous" />
+        ) : (
+          <span />
+        )}
+        {next && <SeriesLink part={next} direction="next" />}
+      </div>
+    </nav>
+  );
+}
+
+export function SeriesProgress({ current, total, label }: { current: number; total: number; label?: string }) {
+  const percentage = total > 0 ? Math.min(100, Math.round((current / total) * 100)) : 0;
+
+  return (
+    <div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={total}
+        aria-valuenow={current}
+        aria-label={label ?? `Part ${current} of ${total}`}
+        className="h-1 w-full overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800"
+      >
+        <div className="h-full rounded-full bg-android" style={{ width: `${percentage}%` }} />
+      </div>
+      {label && (
+        <p className="mt-3 font-mono text-xs text-zinc-400 dark:text-zinc-500">{label}</p>
+      )}
+    </div>
+  );
+}
+
+function SeriesLink({ part, direction }: { part: SeriesPart; direction: "previous" | "next" }) {
+  const isNext = direction === "next";
+
+  return (
+    <Link href={`/android/${part.id}`} className={isNext ? "group block sm:text-right" : "group block"}>
+      <span className={isNext ? "mb-1 inline-flex items-center gap-1 font-mono text-xs text-zinc-400 sm:justify-end dark:text-zinc-500" : "mb-1 inline-flex items-center gap-1 font-mono text-xs text-zinc-400 dark:text-zinc-500"}>
+        {!isNext && <ArrowLeft className="h-3 w-3" />}
+        {isNext ? "Next" : "Previous"} · Part {part.order}
+        {isNext && <ArrowRight className="h-3 w-3" />}
+      </span>
+      <span className="block text-sm font-semibold leading-6 text-zinc-950 group-hover:underline dark:text-zinc-50">
+        {part.title}
+      </span>
+    </Link>
+  );
+}
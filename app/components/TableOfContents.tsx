@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { TocItem } from "@/lib/rehype-heading-anchors";
+
+/** Tracks the heading closest to the top of the viewport. */
+function useActiveHeading(items: TocItem[]) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const headings = items
+      .map((item) => document.getElementById(item.id))
+      .filter((element): element is HTMLElement => element !== null);
+    if (headings.length === 0) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const visible = entries
+          .filter((entry) => entry.isIntersecting)
+          .sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top);
+        if (visible[0]) setActiveId(visible[0].target.id);
+      },
+      // Only the top band of the viewport counts, so the highlight follows reading position.
+      { rootMargin: "0px 0px -70% 0px" }
+    );
+
+    headings.forEach((heading) => observer.observe(heading));
+    return () => observer.disconnect();
+  }, [items]);
+
+  return activeId;
+}
+
+/** Collapsible outline shown above the content on narrow screens. */
+export function MobileTableOfContents({ items }: { items: TocItem[] }) {
+  const activeId = useActiveHeading(items);
+
+  return (
+    <details className="mb-12 border-y border-zinc-200 py-4 lg:hidden dark:border-zinc-800">
+      <summary className="cursor-pointer font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+        On this page
+      </summary>
+      <TocList items={items} activeId={activeId} className="mt-4" />
+    </details>
+  );
+}
+
+/** Sticky sidebar outline shown next to the article on wide screens. */
+export function TableOfContents({ items }: { items: TocItem[] }) {
+  const activeId = useActiveHeading(items);
+
+  return (
+    <aside className="hidden lg:block">
+      <nav aria-label="Table of contents" className="sticky top-12 max-h-[calc(100vh-6rem)] overflow-y-auto">
+        <p className="mb-4 font-mono text-xs font-bold uppercase tracking-widest text-zinc-500 dark:text-zinc-400">
+          On this page
+        </p>
+        <TocList items={items} activeId={activeId} />
+      </nav>
+    </aside>
+  );
+}
+
+function TocList({ items, activeId, className = "" }: { items: TocItem[]; activeId: string | null; className?: string }) {
+  return (
+    <ol className={`space-y-2 text-sm leading-5 ${className}`}>
+      {items.map((item) => (
+        <li key={item.id} className={item.depth === 3 ? "pl-4" : undefined}>
+          <a
+            href={`#${item.id}`}
+            aria-current={item.id === activeId ? "location" : undefined}
+            className={
+              item.id === activeId
+                ? "font-semibold text-zinc-950 dark:text-zinc-50"
+                : "text-zinc-500 hover:text-zinc-950 dark:text-zinc-400 dark:hover:text-zinc-50"
+            }
+          >
+            {item.text}
+          </a>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,5 +1,9 @@
 import type { Metadata } from "next";
 import { Inter, JetBrains_Mono } from "next/font/google";
+import { feedPaths } from "@/lib/feeds";
+import { getFeaturedProjects } from "@/lib/projects";
+import { siteStructuredData } from "@/lib/structured-data";
+import { JsonLd } from "@/app/components/JsonLd";
 import "./globals.css";
 
 const inter = Inter({
@@ -67,87 +71,17 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  const jsonLd = [
-    {
-      "@context": "https://schema.org",
-      "@type": "Person",
-      name: "Davide Agostini",
-      url: "https://davideagostini.com",
-      sameAs: [
-        "https://twitter.com/davideagostini",
-        "https://www.linkedin.com/in/davideagostini/",
-        "https://github.com/davideagostini",
-        "https://davideagostini.medium.com/",
-      ],
-      jobTitle: "Senior Android Developer",
-      worksFor: [
-        {
-          "@type": "Organization",
-          name: "Synapses",
-        },
-      ],
-      knowsAbout: [
-        "Android Security",
-        "StrongBox Keymaster",
-        "Trusted Execution Environment (TEE)",
-        "Jetpack Compose Internals",
-        "Kotlin Multiplatform",
-        "Compose Multiplatform",
-        "System Design",
-        "AI Search Visibility",
-        "Personal Finance Tools",
-        "Football"
-      ],
-      image: "https://davideagostini.com/assets/profile.jpg",
-      description:
-        "Senior Android Developer focused on Kotlin, Kotlin Multiplatform, and modern UIs with Compose Multiplatform.",
-    },
-    {
-      "@context": "https://schema.org",
-      "@type": "WebSite",
-      "name": "Davide Agostini",
-      "url": "https://davideagostini.com",
-      "description": "Portfolio and Android engineering notes by Davide Agostini, Senior Android Developer.",
-      "publisher": {
-        "@type": "Person",
-        "name": "Davide Agostini"
-      }
-    },
-    {
-      "@context": "https://schema.org",
-      "@type": "ItemList",
-      "name": "Selected work by Davide Agostini",
-      "itemListElement": [
-        {
-          "@type": "ListItem",
-          "position": 1,
-          "url": "https://dunio.app",
-          "name": "Dunio"
-        },
-        {
-          "@type": "ListItem",
-          "position": 2,
-          "url": "https://github.com/davideagostini/android-build-analyzer",
-          "name": "Android Build Analyzer"
-        },
-        {
-          "@type": "ListItem",
-          "position": 3,
-          "url": "https://viametric.app",
-          "name": "ViaMetric"
-        }
-      ]
-    }
-  ];
+  const jsonLd = siteStructuredData(getFeaturedProjects());
 
   return (
     <html lang="en">
       <head>
         <link rel="alternate" type="text/markdown" href="/llms.txt" title="LLMs.txt" />
-        <script
-          type="application/ld+json"
-          dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-        />
+        {/* In <head> rather than metadata.alternates, which pages replace when they set a canonical URL. */}
+        <link rel="alternate" type="application/rss+xml" href={feedPaths.rss} title="Android Engineering Notes (RSS)" />
+        <link rel="alternate" type="application/atom+xml" href={feedPaths.atom} title="Android Engineering Notes (Atom)" />
+        <link rel="alternate" type="application/feed+json" href={feedPaths.json} title="Android Engineering Notes (JSON Feed)" />
+        <JsonLd data={jsonLd} />
       </head>
       <body
         className={`${inter.variable} ${jetbrainsMono.variable} font-sans antialiased`}
@@ -0,0 +1,11 @@
+import { buildLlmsFullTxt } from '@/lib/llms'
+
+export const dynamic = 'force-static'
+
+export function GET() {
+    return new Response(buildLlmsFullTxt(), {
+        headers: {
+            'Content-Type': 'text/plain; charset=utf-8',
+        },
+    })
+}
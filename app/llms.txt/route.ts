@@ -0,0 +1,11 @@
+import { buildLlmsTxt } from '@/lib/llms'
+
+export const dynamic = 'force-static'
+
+export function GET() {
+    return new Response(buildLlmsTxt(), {
+        headers: {
+            'Content-Type': 'text/plain; charset=utf-8',
+        },
+    })
+}
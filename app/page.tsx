@@ -2,45 +2,7 @@ import Link from "next/link";
 import { ArrowRight, ArrowUpRight } from "lucide-react";
 import { SiteHeader } from "@/app/components/SiteHeader";
 import { getSortedPostsData } from "@/lib/posts";
-
-const projects = [
-  {
-    title: "Dunio",
-    desc: "Shared household finance for couples and households: expenses, net worth, recurring payments, widgets, and a calm Android workspace.",
-    href: "https://dunio.app",
-    tag: "Android",
-  },
-  {
-    title: "Android Build Analyzer",
-    desc: "Gradle plugin for Android build hygiene: exposed API keys, APK composition, security checks, unused resources, dependency versions, and CI reports.",
-    href: "https://github.com/davideagostini/android-build-analyzer",
-    tag: "Gradle Plugin",
-  },
-  {
-    title: "ViaMetric",
-    desc: "AI Search Visibility Analytics. My playground for understanding how LLMs index and retrieve web content.",
-    href: "https://viametric.app?ref=davideagostini.com",
-    tag: "Research",
-  },
-  {
-    title: "Notyze",
-    desc: "Secure note-taking backend built with Ktor and MongoDB. Demonstrates clean architecture on the server-side.",
-    href: "https://github.com/davideagostini/notyze",
-    tag: "Ktor",
-  },
-  {
-    title: "Translate AI",
-    desc: "Chrome extension for translating and summarizing text using on-device AI models.",
-    href: "https://github.com/davideagostini/translate-ai-extension",
-    tag: "AI",
-  },
-  {
-    title: "Tintracker",
-    desc: "Mobile app for tracking activities and earnings. Built with Clean Architecture and Jetpack Compose.",
-    href: "https://github.com/davideagostini/tintracker",
-    tag: "Android",
-  },
-];
+import { projects } from "@/lib/projects";
 
 export default function Home() {
   const latestPosts = getSortedPostsData().slice(0, 3);
@@ -53,7 +15,13 @@ export default function Home() {
         <Section title="Selected Work">
           <div className="grid gap-x-10 gap-y-10 md:grid-cols-2">
             {projects.map((project) => (
-              <ProjectLink key={project.title} {...project} />
+              <ProjectLink
+                key={project.slug}
+                title={project.title}
+                desc={project.description}
+                href={project.href}
+                tag={project.tag}
+              />
             ))}
           </div>
         </Section>
@@ -73,6 +41,7 @@ export default function Home() {
                     title={post.title}
                     href={`/android/${post.id}`}
                     date={post.date}
+                    readingMinutes={post.readingStats.readingMinutes}
                   />
                 ))}
                 {latestPosts.length === 0 && (
@@ -176,11 +145,16 @@ function ProjectLink({
   );
 }
 
-function WritingLink({ title, href, date }: { title: string; href: string; date?: string }) {
+function WritingLink({ title, href, date, readingMinutes }: { title: string; href: string; date?: string; readingMinutes?: number }) {
   return (
     <Link href={href} className="group block">
       <span className="block text-base font-semibold leading-6 text-zinc-950 group-hover:underline dark:text-zinc-50">{title}</span>
-      {date && <span className="mt-1 block font-mono text-xs text-zinc-400 dark:text-zinc-500">{date}</span>}
+      {date && (
+        <span className="mt-1 block font-mono text-xs text-zinc-400 dark:text-zinc-500">
+          {date}
+          {readingMinutes && ` · ${readingMinutes} min read`}
+        </span>
+      )}
     </Link>
   );
 }
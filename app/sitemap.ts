@@ -1,6 +1,7 @@
 import { MetadataRoute } from 'next'
-import { getSortedPostsData } from '@/lib/posts'
+import { getAllSeries, getAllTags, getPaginatedPosts, getPostsPagePath, getSortedPostsData, isTagIndexed } from '@/lib/posts'
 import { apps } from '@/lib/apps'
+import { getAppDocument, getAppDocuments, getAppDocumentSlugs } from '@/lib/app-documents'
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     const baseUrl = 'https://davideagostini.com'
@@ -8,11 +9,33 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 
     const notesUrls = posts.map((post) => ({
         url: `${baseUrl}/android/${post.id}`,
-        lastModified: new Date(post.date),
+        lastModified: new Date(post.updated),
         changeFrequency: 'weekly' as const,
         priority: 0.8,
     }))
 
+    const tagUrls = getAllTags().filter(isTagIndexed).map((tag) => ({
+        url: `${baseUrl}/android/tags/${tag.slug}`,
+        lastModified: new Date(),
+        changeFrequency: 'weekly' as const,
+        priority: 0.6,
+    }))
+
+    const seriesUrls = getAllSeries().map((series) => ({
+        url: `${baseUrl}/android/series/${series.slug}`,
+        lastModified: new Date(series.parts[series.parts.length - 1].date),
+        changeFrequency: 'weekly' as const,
+        priority: 0.7,
+    }))
+
+    const totalPages = getPaginatedPosts(1)?.totalPages ?? 1
+    const pageUrls = Array.from({ length: Math.max(0, totalPages - 1) }, (_, index) => ({
+        url: `${baseUrl}${getPostsPagePath(index + 2)}`,
+        lastModified: new Date(),
+        changeFrequency: 'weekly' as const,
+        priority: 0.5,
+    }))
+
     const appUrls = apps.map((app) => ({
         url: `${baseUrl}/apps/${app.slug}`,
         lastModified: new Date(),
@@ -20,6 +43,16 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
         priority: 0.8,
     }))
 
+    const appDocuments = await Promise.all(
+        getAppDocumentSlugs().flatMap((slug) => getAppDocuments(slug).map((document) => getAppDocument(slug, document.kind)))
+    )
+    const appDocumentUrls = appDocuments.flatMap((document) => document ? [{
+        url: `${baseUrl}${document.href}`,
+        lastModified: document.lastUpdated ? new Date(document.lastUpdated) : new Date(),
+        changeFrequency: 'yearly' as const,
+        priority: 0.3,
+    }] : [])
+
     return [
         {
             url: baseUrl,
@@ -33,6 +66,13 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
             changeFrequency: 'daily',
             priority: 0.9,
         },
+        {
+            url: `${baseUrl}/android/archive`,
+            lastModified: new Date(),
+            changeFrequency: 'weekly',
+            priority: 0.6,
+        },
+        ...pageUrls,
         {
             url: `${baseUrl}/apps`,
             lastModified: new Date(),
@@ -40,6 +80,9 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
             priority: 0.9,
         },
         ...appUrls,
+        ...appDocumentUrls,
         ...notesUrls,
+        ...seriesUrls,
+        ...tagUrls,
     ]
 }
@@ -0,0 +1,9 @@
+/**
+ * Colors behind each `accent` class, mirrored from the `.app-chip` rules in app/globals.css.
+ * Open Graph images cannot read Tailwind classes, so they use these values directly.
+ */
+export const APP_ACCENTS: Record<string, { background: string; foreground: string }> = {
+  'text-android': { background: '#3ddc84', foreground: '#04210f' },
+  'text-sky-500': { background: '#0ea5e9', foreground: '#f0f9ff' },
+  'text-violet-500': { background: '#8b5cf6', foreground: '#f5f3ff' },
+};
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import { renderMarkdown } from './markdown';
+import { getAppBySlug, type AppInfo } from './apps';
+
+const appsDirectory = path.join(process.cwd(), 'apps');
+
+export type AppDocumentKind = 'privacy' | 'terms' | 'support';
+
+type AppDocumentDefinition = {
+  kind: AppDocumentKind;
+  label: string;
+  /** Accepted file names inside apps/<slug>/, first match wins. */
+  fileNames: string[];
+};
+
+// The kind doubles as the URL segment. App stores keep these URLs on file, so never rename them.
+const APP_DOCUMENT_DEFINITIONS: AppDocumentDefinition[] = [
+  { kind: 'privacy', label: 'Privacy Policy', fileNames: ['privacy-policy.md', 'privacy.md'] },
+  { kind: 'terms', label: 'Terms of Service', fileNames: ['tos.md', 'terms.md'] },
+  { kind: 'support', label: 'Support', fileNames: ['support.md'] },
+];
+
+export type AppDocumentLink = {
+  kind: AppDocumentKind;
+  label: string;
+  href: string;
+};
+
+export type AppDocument = AppDocumentLink & {
+  appSlug: string;
+  /** Leading heading of the file, or the label when the file does not open with one. */
+  title: string;
+  /** ISO date (YYYY-MM-DD) parsed from the `**Last Updated:**` line. */
+  lastUpdated: string | null;
+  contentHtml: string;
+};
+
+function getDocumentDefinition(kind: string) {
+  return APP_DOCUMENT_DEFINITIONS.find((definition) => definition.kind === kind);
+}
+
+function findDocumentFile(appSlug: string, definition: AppDocumentDefinition) {
+  for (const fileName of definition.fileNames) {
+    const fullPath = path.join(appsDirectory, appSlug, fileName);
+    if (fs.existsSync(fullPath)) return fullPath;
+  }
+  return null;
+}
+
+/** Documents present under apps/<slug>/, in a stable privacy → terms → support order. */
+export function getAppDocuments(appSlug: string): AppDocumentLink[] {
+  return APP_DOCUMENT_DEFINITIONS
+    .filter((definition) => findDocumentFile(appSlug, definition))
+    .map(({ kind, label }) => ({
+      kind,
+      label,
+      href: `/apps/${appSlug}/${kind}`,
+    }));
+}
+
+/**
+ * Every apps/<slug>/ directory with at least one document. Store listings link to
+ * these pages, so they are served even before the app has a content/apps entry.
+ */
+export function getAppDocumentSlugs(): string[] {
+  if (!fs.existsSync(appsDirectory)) return [];
+
+  return fs
+    .readdirSync(appsDirectory, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && getAppDocuments(entry.name).length > 0)
+    .map((entry) => entry.name)
+    .sort();
+}
+
+export type AppDocumentOwner = {
+  slug: string;
+  name: string;
+  /** The catalog entry, or null while the app only has documents. */
+  app: AppInfo | null;
+};
+
+/** The app a document belongs to; uncatalogued apps are named after their directory. */
+export function getAppDocumentOwner(appSlug: string): AppDocumentOwner {
+  const app = getAppBySlug(appSlug) ?? null;
+  const name = app?.name ?? appSlug.split('-').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  return { slug: appSlug, name, app };
+}
+
+const LAST_UPDATED_PATTERN = /^\s*\*\*Last Updated:?\*\*:?\s*(.+?)\s*$/im;
+const TITLE_PATTERN = /^\s*#{1,6}[ \t]+([^\n]+?)[ \t]*#*[ \t]*(?:\n|$)/;
+
+/** "May 10, 2025" or "2025-05-10" as YYYY-MM-DD, read as a calendar date so the build timezone can't shift it. */
+function toIsoDate(value: string) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const parsed = new Date(`${value} UTC`);
+  if (Number.isNaN(parsed.getTime())) return null;
+
+  const year = parsed.getUTCFullYear();
+  const month = String(parsed.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(parsed.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export async function getAppDocument(appSlug: string, kind: string): Promise<AppDocument | null> {
+  const definition = getDocumentDefinition(kind);
+  if (!definition) return null;
+
+  const fullPath = findDocumentFile(appSlug, definition);
+  if (!fullPath) return null;
+
+  let markdown = fs.readFileSync(fullPath, 'utf8');
+
+  // Title and date are rendered in the page header, so they are lifted out of the body.
+  const titleMatch = markdown.match(TITLE_PATTERN);
+  if (titleMatch) markdown = markdown.replace(titleMatch[0], '');
+
+  const lastUpdatedMatch = markdown.match(LAST_UPDATED_PATTERN);
+  if (lastUpdatedMatch) markdown = markdown.replace(lastUpdatedMatch[0], '');
+
+  const lastUpdated = lastUpdatedMatch ? toIsoDate(lastUpdatedMatch[1]) : null;
+  if (lastUpdatedMatch && !lastUpdated) {
+    console.warn(`⚠ ${path.relative(process.cwd(), fullPath)}: could not parse "Last Updated" date "${lastUpdatedMatch[1]}"`);
+  }
+
+  const { html } = await renderMarkdown(markdown, path.relative(process.cwd(), fullPath));
+
+  return {
+    appSlug,
+    kind: definition.kind,
+    label: definition.label,
+    href: `/apps/${appSlug}/${definition.kind}`,
+    title: titleMatch ? titleMatch[1] : definition.label,
+    lastUpdated,
+    contentHtml: html,
+  };
+}
@@ -0,0 +1,231 @@
+import fs from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import type { FrontmatterIssue } from './post-schema';
+import type { AppFaq, AppInfo, AppLink } from './apps';
+import { APP_ACCENTS } from './app-accents';
+import type { ProjectInfo } from './projects';
+
+export type CatalogFileFailure = {
+  file: string;
+  issues: FrontmatterIssue[];
+};
+
+export class CatalogValidationError extends Error {
+  constructor(readonly failures: CatalogFileFailure[]) {
+    super(formatCatalogReport(failures));
+    this.name = 'CatalogValidationError';
+  }
+}
+
+export function formatCatalogReport(failures: CatalogFileFailure[]) {
+  const lines = failures.flatMap(({ file, issues }) => [
+    `${file}:`,
+    ...issues.map((issue) => `  - ${issue.field}: ${issue.message}`),
+  ]);
+  const count = failures.length === 1 ? '1 catalog entry' : `${failures.length} catalog entries`;
+  return `Invalid frontmatter in ${count}:\n${lines.join('\n')}`;
+}
+
+type CatalogEntry = {
+  slug: string;
+  file: string;
+  data: Record<string, unknown>;
+  content: string;
+};
+
+/** Markdown entries of a content/<kind> directory; files starting with `_` are templates. */
+function readCatalogEntries(kind: string): CatalogEntry[] {
+  const directory = path.join(process.cwd(), 'content', kind);
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  return fs.readdirSync(directory)
+    .filter((fileName) => fileName.endsWith('.md') && !fileName.startsWith('_'))
+    .map((fileName) => {
+      const fullPath = path.join(directory, fileName);
+      const { data, content } = matter(fs.readFileSync(fullPath, 'utf8'));
+      return {
+        slug: fileName.replace(/\.md$/, ''),
+        file: path.relative(process.cwd(), fullPath),
+        data,
+        content,
+      };
+    });
+}
+
+/** Blank-line separated paragraphs of a markdown body, with line wraps joined. */
+function splitParagraphs(content: string) {
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isNonEmptyString);
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (!isNonEmptyString(value)) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function requireString(data: Record<string, unknown>, field: string, issues: FrontmatterIssue[]) {
+  if (!isNonEmptyString(data[field])) {
+    issues.push({ field, message: 'is required' });
+  }
+}
+
+/** `order` sorts catalog entries; ties fall back to the file slug so output is stable. */
+function requireOrder(data: Record<string, unknown>, issues: FrontmatterIssue[]) {
+  if (!(Number.isInteger(data.order) && (data.order as number) >= 0)) {
+    issues.push({ field: 'order', message: 'must be a non-negative integer' });
+  }
+}
+
+function byOrder<T extends { order: number; slug: string }>(a: T, b: T) {
+  return a.order - b.order || a.slug.localeCompare(b.slug);
+}
+
+const APP_REQUIRED_FIELDS = ['name', 'tagline', 'description', 'platform', 'price', 'category', 'availability', 'icon', 'accent'] as const;
+
+function validateApp({ slug, data, content }: CatalogEntry) {
+  const issues: FrontmatterIssue[] = [];
+
+  for (const field of APP_REQUIRED_FIELDS) {
+    requireString(data, field, issues);
+  }
+  requireOrder(data, issues);
+
+  if (isNonEmptyString(data.icon) && !fs.existsSync(path.join(process.cwd(), 'public', data.icon))) {
+    issues.push({ field: 'icon', message: `must point to a file in public/ (got ${JSON.stringify(data.icon)})` });
+  }
+
+  if (isNonEmptyString(data.accent) && !(data.accent in APP_ACCENTS)) {
+    issues.push({ field: 'accent', message: `must be one of ${Object.keys(APP_ACCENTS).join(', ')} (got ${JSON.stringify(data.accent)})` });
+  }
+
+  const links = data.links ?? [];
+  if (!Array.isArray(links) || !links.every((link) => isNonEmptyString(link?.label) && isHttpUrl(link?.href))) {
+    issues.push({ field: 'links', message: 'must be a list of { label, href } entries with absolute URLs' });
+  }
+
+  if (!isStringList(data.highlights) || data.highlights.length === 0) {
+    issues.push({ field: 'highlights', message: 'must be a non-empty list of strings' });
+  }
+
+  const faq = data.faq ?? [];
+  if (!Array.isArray(faq) || !faq.every((item) => isNonEmptyString(item?.question) && isNonEmptyString(item?.answer))) {
+    issues.push({ field: 'faq', message: 'must be a list of { question, answer } entries' });
+  }
+
+  if (issues.length > 0) {
+    return { issues, app: null };
+  }
+
+  const details = splitParagraphs(content);
+  const app: AppInfo = {
+    slug,
+    order: data.order as number,
+    name: data.name as string,
+    tagline: data.tagline as string,
+    description: data.description as string,
+    platform: data.platform as string,
+    price: data.price as string,
+    category: data.category as string,
+    availability: data.availability as string,
+    icon: data.icon as string,
+    accent: data.accent as string,
+    links: (links as AppLink[]).map(({ label, href }) => ({ label, href })),
+    highlights: data.highlights as string[],
+    faq: (faq as AppFaq[]).map(({ question, answer }) => ({ question, answer })),
+  };
+  if (details.length > 0) {
+    app.details = details;
+  }
+
+  return { issues, app };
+}
+
+/** Reads every app file, collecting failures so one run reports all of them. */
+export function loadApps() {
+  const apps: AppInfo[] = [];
+  const failures: CatalogFileFailure[] = [];
+
+  for (const entry of readCatalogEntries('apps')) {
+    const { issues, app } = validateApp(entry);
+    if (app) {
+      apps.push(app);
+    } else {
+      failures.push({ file: entry.file, issues });
+    }
+  }
+
+  return { apps: apps.sort(byOrder), failures };
+}
+
+function validateProject({ slug, data, content }: CatalogEntry) {
+  const issues: FrontmatterIssue[] = [];
+
+  requireString(data, 'title', issues);
+  requireString(data, 'tag', issues);
+  requireString(data, 'summary', issues);
+  requireOrder(data, issues);
+
+  if (!isHttpUrl(data.href)) {
+    issues.push({ field: 'href', message: `must be an absolute URL (got ${JSON.stringify(data.href)})` });
+  }
+  if (data.featured !== undefined && typeof data.featured !== 'boolean') {
+    issues.push({ field: 'featured', message: 'must be true or false' });
+  }
+
+  const description = splitParagraphs(content).join(' ');
+  if (!isNonEmptyString(description)) {
+    issues.push({ field: 'body', message: 'needs a description below the frontmatter' });
+  }
+
+  if (issues.length > 0) {
+    return { issues, project: null };
+  }
+
+  const project: ProjectInfo = {
+    slug,
+    order: data.order as number,
+    title: data.title as string,
+    description,
+    summary: data.summary as string,
+    href: data.href as string,
+    tag: data.tag as string,
+    featured: data.featured === true,
+  };
+
+  return { issues, project };
+}
+
+/** Reads every project file, collecting failures so one run reports all of them. */
+export function loadProjects() {
+  const projects: ProjectInfo[] = [];
+  const failures: CatalogFileFailure[] = [];
+
+  for (const entry of readCatalogEntries('projects')) {
+    const { issues, project } = validateProject(entry);
+    if (project) {
+      projects.push(project);
+    } else {
+      failures.push({ file: entry.file, issues });
+    }
+  }
+
+  return { projects: projects.sort(byOrder), failures };
+}
@@ -0,0 +1,118 @@
+export type ContentLintSeverity = 'error' | 'warning';
+
+export type ContentLintIssue = {
+  severity: ContentLintSeverity;
+  file: string;
+  message: string;
+};
+
+type LintablePost = {
+  id: string;
+  title: string;
+  date: string;
+};
+
+const DATE_PREFIX_PATTERN = /^(\d{4}-\d{2}-\d{2})-(.+)$/;
+
+// Jaccard overlap of significant words above which two posts look like the same topic.
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+// Words every note shares; they would make unrelated posts look similar.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'android', 'compose', 'for', 'how', 'in', 'is', 'it', 'its', 'jetpack',
+  'of', 'on', 'or', 's', 'that', 'the', 'to', 'vs', 'why', 'with', 'you', 'your',
+]);
+
+function significantWords(value: string) {
+  return new Set(
+    value
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word && !STOP_WORDS.has(word))
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>) {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+/** Splits `2026-02-18-lazycolumn-keys-performance` into its date prefix and topic slug. */
+export function parsePostSlug(id: string) {
+  const match = id.match(DATE_PREFIX_PATTERN);
+  return match ? { date: match[1], topic: match[2] } : { date: null, topic: id };
+}
+
+/**
+ * Cross-file checks the per-post schema cannot express. Slugs become canonical
+ * URLs, so anything that would produce a confusing or conflicting URL is
+ * reported here: date mismatches fail the build, legacy slugs and likely
+ * duplicates are surfaced as warnings because renaming them would break links.
+ */
+export function lintPosts(posts: LintablePost[]): ContentLintIssue[] {
+  const issues: ContentLintIssue[] = [];
+  const fileOf = (post: LintablePost) => `content/android/${post.id}.md`;
+
+  for (const post of posts) {
+    const { date } = parsePostSlug(post.id);
+
+    if (!date) {
+      issues.push({
+        severity: 'warning',
+        file: fileOf(post),
+        message: `slug does not start with a YYYY-MM-DD date prefix (expected "${post.date}-${post.id}")`,
+      });
+    } else if (date !== post.date) {
+      issues.push({
+        severity: 'error',
+        file: fileOf(post),
+        message: `filename date ${date} does not match frontmatter date ${post.date}`,
+      });
+    }
+  }
+
+  for (let i = 0; i < posts.length; i++) {
+    for (let j = i + 1; j < posts.length; j++) {
+      const a = posts[i];
+      const b = posts[j];
+      const topicA = parsePostSlug(a.id).topic;
+      const topicB = parsePostSlug(b.id).topic;
+
+      if (topicA === topicB) {
+        issues.push({
+          severity: 'warning',
+          file: fileOf(b),
+          message: `duplicate slug "${topicB}" (also used by ${fileOf(a)})`,
+        });
+        continue;
+      }
+
+      const slugScore = similarity(significantWords(topicA), significantWords(topicB));
+      const titleScore = similarity(significantWords(a.title), significantWords(b.title));
+      if (Math.max(slugScore, titleScore) >= NEAR_DUPLICATE_THRESHOLD) {
+        issues.push({
+          severity: 'warning',
+          file: fileOf(b),
+          message: `looks like a near-duplicate of ${fileOf(a)} (slug ${slugScore.toFixed(2)}, title ${titleScore.toFixed(2)})`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export class ContentLintError extends Error {
+  constructor(readonly issues: ContentLintIssue[]) {
+    super(`Content lint failed:\n${formatLintIssues(issues)}`);
+    this.name = 'ContentLintError';
+  }
+}
+
+export function formatLintIssues(issues: ContentLintIssue[]) {
+  return issues.map((issue) => `${issue.file}: ${issue.severity}: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,165 @@
+import { getPostData, getSortedPostsData } from './posts';
+
+const baseUrl = 'https://davideagostini.com';
+const feedTitle = 'Android Engineering Notes | Davide Agostini';
+const feedDescription = 'Short, actionable technical notes on building production-grade Android apps. Focus: Compose, Performance, and Security.';
+const author = {
+  name: 'Davide Agostini',
+  url: baseUrl,
+};
+
+// Feed readers only need the recent history; the sitemap covers the full archive.
+export const FEED_LIMIT = 20;
+
+export const feedPaths = {
+  rss: '/android/feed.xml',
+  atom: '/android/atom.xml',
+  json: '/android/feed.json',
+} as const;
+
+type FeedEntry = {
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+  date: Date;
+  updated: Date;
+  tags: string[];
+  contentHtml: string;
+};
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function cdata(value: string) {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/** Feed readers render content out of context, so root-relative links must become absolute. */
+function absolutizeUrls(html: string) {
+  return html.replace(/(href|src)="\/(?!\/)/g, `$1="${baseUrl}/`);
+}
+
+async function getFeedEntries(): Promise<FeedEntry[]> {
+  const posts = getSortedPostsData().slice(0, FEED_LIMIT);
+
+  const entries = await Promise.all(
+    posts.map(async (post) => {
+      const data = await getPostData(post.id);
+      return {
+        id: post.id,
+        url: `${baseUrl}/android/${post.id}`,
+        title: post.title,
+        description: post.description,
+        date: new Date(post.date),
+        updated: new Date(post.updated),
+        tags: post.tags,
+        contentHtml: absolutizeUrls(data?.contentHtml ?? ''),
+      };
+    })
+  );
+
+  return entries;
+}
+
+function lastUpdated(entries: FeedEntry[]) {
+  if (entries.length === 0) return new Date();
+  return new Date(Math.max(...entries.map((entry) => entry.updated.getTime())));
+}
+
+export async function buildRssFeed() {
+  const entries = await getFeedEntries();
+
+  const items = entries
+    .map((entry) => [
+      '    <item>',
+      `      <title>${escapeXml(entry.title)}</title>`,
+      `      <link>${entry.url}</link>`,
+      `      <guid isPermaLink="true">${entry.url}</guid>`,
+      `      <pubDate>${entry.date.toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(entry.description)}</description>`,
+      ...entry.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      `      <content:encoded>${cdata(entry.contentHtml)}</content:encoded>`,
+      '    </item>',
+    ].join('\n'))
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(feedTitle)}</title>
+    <link>${baseUrl}/android</link>
+    <description>${escapeXml(feedDescription)}</description>
+    <language>en-us</language>
+    <lastBuildDate>${lastUpdated(entries).toUTCString()}</lastBuildDate>
+    <atom:link href="${baseUrl}${feedPaths.rss}" rel="self" type="application/rss+xml" />
+${items}
+  </channel>
+</rss>
+`;
+}
+
+export async function buildAtomFeed() {
+  const entries = await getFeedEntries();
+
+  const items = entries
+    .map((entry) => [
+      '  <entry>',
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link href="${entry.url}" rel="alternate" type="text/html" />`,
+      `    <id>${entry.url}</id>`,
+      `    <published>${entry.date.toISOString()}</published>`,
+      `    <updated>${entry.updated.toISOString()}</updated>`,
+      `    <summary>${escapeXml(entry.description)}</summary>`,
+      ...entry.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`),
+      `    <content type="html">${escapeXml(entry.contentHtml)}</content>`,
+      '  </entry>',
+    ].join('\n'))
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feedTitle)}</title>
+  <subtitle>${escapeXml(feedDescription)}</subtitle>
+  <link href="${baseUrl}/android" rel="alternate" type="text/html" />
+  <link href="${baseUrl}${feedPaths.atom}" rel="self" type="application/atom+xml" />
+  <id>${baseUrl}/android</id>
+  <updated>${lastUpdated(entries).toISOString()}</updated>
+  <author>
+    <name>${escapeXml(author.name)}</name>
+    <uri>${author.url}</uri>
+  </author>
+${items}
+</feed>
+`;
+}
+
+export async function buildJsonFeed() {
+  const entries = await getFeedEntries();
+
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feedTitle,
+    home_page_url: `${baseUrl}/android`,
+    feed_url: `${baseUrl}${feedPaths.json}`,
+    description: feedDescription,
+    language: 'en-US',
+    authors: [author],
+    items: entries.map((entry) => ({
+      id: entry.url,
+      url: entry.url,
+      title: entry.title,
+      summary: entry.description,
+      content_html: entry.contentHtml,
+      date_published: entry.date.toISOString(),
+      date_modified: entry.updated.toISOString(),
+      tags: entry.tags,
+    })),
+  };
+}
@@ -0,0 +1,145 @@
+// Shared by the markdown pipeline (which marks ```kotlin runnable blocks) and the
+// client playground (which runs them). Nothing here may touch the filesystem.
+
+/** Kotlin Playground convention: code outside these markers compiles but stays hidden. */
+const SAMPLE_START = /^[ \t]*\/\/[ \t]*sampleStart[ \t]*\n?/m;
+const SAMPLE_END = /^[ \t]*\/\/[ \t]*sampleEnd[ \t]*\n?/m;
+
+export type PlaygroundSource = {
+  /** Hidden setup before the visible sample (imports, helpers, `fun main() {`). */
+  prefix: string;
+  visible: string;
+  /** Hidden code after the sample (closing braces, calls into it). */
+  suffix: string;
+};
+
+/** Removes the indentation every non-blank line shares (samples usually sit inside `main`). */
+function dedent(code: string) {
+  const lines = code.split('\n');
+  const indents = lines.filter((line) => line.trim()).map((line) => line.match(/^[ \t]*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(common)).join('\n');
+}
+
+/** Splits a snippet on `//sampleStart` / `//sampleEnd`; without markers all of it is visible. */
+export function splitPlaygroundSource(source: string): PlaygroundSource {
+  const start = source.match(SAMPLE_START);
+  if (!start || start.index === undefined) {
+    return { prefix: '', visible: source, suffix: '' };
+  }
+
+  const afterStart = start.index + start[0].length;
+  const end = source.slice(afterStart).match(SAMPLE_END);
+  const endIndex = end?.index === undefined ? source.length : afterStart + end.index;
+
+  return {
+    prefix: source.slice(0, start.index),
+    visible: dedent(source.slice(afterStart, endIndex).replace(/\n$/, '')),
+    suffix: end?.index === undefined ? '' : source.slice(endIndex + end[0].length),
+  };
+}
+
+export function joinPlaygroundSource({ prefix, visible, suffix }: PlaygroundSource) {
+  return `${prefix}${visible}\n${suffix}`;
+}
+
+export type KotlinDiagnostic = {
+  severity: 'error' | 'warning';
+  message: string;
+  /** 1-based line in the full program, when the compiler reports one. */
+  line?: number;
+};
+
+export type KotlinRunResult = {
+  stdout: string;
+  stderr: string;
+  diagnostics: KotlinDiagnostic[];
+  exception?: string;
+};
+
+/** Anything that can compile and run a Kotlin program, so the playground isn't tied to one backend. */
+export type KotlinExecutor = {
+  run(source: string, signal?: AbortSignal): Promise<KotlinRunResult>;
+};
+
+export class KotlinExecutorUnavailableError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'KotlinExecutorUnavailableError';
+  }
+}
+
+type CompilerServerResponse = {
+  text?: string;
+  errors?: Record<string, { message: string; severity: string; interval?: { start?: { line?: number } } }[]>;
+  exception?: { message?: string; fullName?: string } | null;
+};
+
+function readStream(text: string, tag: 'outStream' | 'errStream') {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+  return [...text.matchAll(pattern)]
+    .map((match) => match[1])
+    .join('')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Executor for JetBrains' kotlin-compiler-server (github.com/JetBrains/kotlin-compiler-server),
+ * e.g. one started locally with Docker on port 8080.
+ */
+export function createCompilerServerExecutor(baseUrl: string): KotlinExecutor {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/api/compiler/run`;
+
+  return {
+    async run(source, signal) {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ args: '', confType: 'java', files: [{ name: 'File.kt', text: source, publicId: '' }] }),
+          signal,
+        });
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') throw error;
+        throw new KotlinExecutorUnavailableError(`Could not reach the Kotlin compile server at ${baseUrl}`, { cause: error });
+      }
+
+      if (!response.ok) {
+        throw new KotlinExecutorUnavailableError(`The Kotlin compile server answered ${response.status}`);
+      }
+
+      const result = (await response.json()) as CompilerServerResponse;
+      const diagnostics = Object.values(result.errors ?? {})
+        .flat()
+        .filter((issue) => issue.severity === 'ERROR' || issue.severity === 'WARNING')
+        .map((issue): KotlinDiagnostic => ({
+          severity: issue.severity === 'ERROR' ? 'error' : 'warning',
+          message: issue.message,
+          line: issue.interval?.start?.line === undefined ? undefined : issue.interval.start.line + 1,
+        }));
+
+      return {
+        stdout: readStream(result.text ?? '', 'outStream'),
+        stderr: readStream(result.text ?? '', 'errStream'),
+        diagnostics,
+        exception: result.exception
+          ? [result.exception.fullName, result.exception.message].filter(Boolean).join(': ')
+          : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * The executor configured for this build, or null when runnable snippets should
+ * stay static. Set NEXT_PUBLIC_KOTLIN_COMPILER_URL to a compile server to enable it.
+ */
+export function getKotlinExecutor(): KotlinExecutor | null {
+  const url = process.env.NEXT_PUBLIC_KOTLIN_COMPILER_URL;
+  return url ? createCompilerServerExecutor(url) : null;
+}
@@ -0,0 +1,112 @@
+import { apps } from './apps';
+import { getPostMarkdown, getSortedPostsData } from './posts';
+import { projects } from './projects';
+
+const SITE_URL = 'https://davideagostini.com';
+
+const TOPICS = [
+  'Android',
+  'Kotlin',
+  'Kotlin Multiplatform',
+  'Compose Multiplatform',
+  'Jetpack Compose',
+  'Android architecture',
+  'Android security',
+  'Performance',
+  'AI search',
+  'Personal finance tools',
+];
+
+const PROFILES = [
+  { label: 'GitHub', href: 'https://github.com/davideagostini' },
+  { label: 'LinkedIn', href: 'https://www.linkedin.com/in/davideagostini/' },
+  { label: 'Twitter/X', href: 'https://twitter.com/davideagostini' },
+];
+
+function formatPlatforms() {
+  const platforms = [...new Set(apps.map((app) => app.platform))].sort();
+  if (platforms.length <= 2) return platforms.join(' and ');
+  return `${platforms.slice(0, -1).join(', ')}, and ${platforms[platforms.length - 1]}`;
+}
+
+/** llms.txt (https://llmstxt.org): key pages, apps and selected work, derived from the content catalog. */
+export function buildLlmsTxt() {
+  const lines = [
+    '# Davide Agostini',
+    '',
+    'Senior Android Developer focused on Kotlin, Kotlin Multiplatform, and modern UIs with Compose Multiplatform.',
+    '',
+    "This site contains Davide Agostini's portfolio, selected Android and software projects, and technical Android engineering notes.",
+    '',
+    '## Key Pages',
+    '',
+    `- [Home](${SITE_URL}/): portfolio, selected work, writing, background, and interests.`,
+    `- [Android Engineering Notes](${SITE_URL}/android): technical notes on Jetpack Compose, Android architecture, performance, security, and production-grade Android development.`,
+    `- [Apps](${SITE_URL}/apps): ${formatPlatforms()} apps built by Davide Agostini.`,
+    ...apps.map((app) => `- [${app.name}](${SITE_URL}/apps/${app.slug}): ${app.description}`),
+    '',
+    '## Android Engineering Notes',
+    '',
+    ...getSortedPostsData().map((post) => `- [${post.title}](${SITE_URL}/android/${post.id}.md): ${post.description}`),
+    '',
+    '## Selected Work',
+    '',
+    ...projects.map((project) => `- [${project.title}](${project.href.split('?')[0]}): ${project.summary}`),
+    '',
+    '## Topics',
+    '',
+    ...TOPICS.map((topic) => `- ${topic}`),
+    '',
+    '## Author Profiles',
+    '',
+    ...PROFILES.map((profile) => `- [${profile.label}](${profile.href})`),
+    '',
+    '## Optional',
+    '',
+    `- [All notes in one file](${SITE_URL}/llms-full.txt): the full markdown of every published Android engineering note.`,
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+type PostSource = NonNullable<ReturnType<typeof getPostMarkdown>>;
+
+/** A note as standalone markdown: title, summary and source metadata above the original body. */
+function formatPostMarkdown(post: PostSource) {
+  const lines = [
+    `# ${post.title}`,
+    '',
+    `> ${post.description}`,
+    '',
+    `- URL: ${SITE_URL}/android/${post.id}`,
+    `- Published: ${post.date}`,
+    ...(post.updated !== post.date ? [`- Updated: ${post.updated}`] : []),
+    `- Tags: ${post.tags.join(', ')}`,
+    '',
+    post.content.trim(),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/** Body of /android/[slug].md, or null when the note has no page. */
+export function buildPostMarkdown(id: string) {
+  const post = getPostMarkdown(id);
+  return post ? formatPostMarkdown(post) : null;
+}
+
+/** llms-full.txt: every listed note in full, newest first, for crawlers that want the whole corpus in one request. */
+export function buildLlmsFullTxt() {
+  const posts = getSortedPostsData();
+  const header = [
+    '# Davide Agostini – Android Engineering Notes',
+    '',
+    `> ${posts.length} technical notes on Jetpack Compose, Android architecture, performance and security by Davide Agostini, Senior Android Developer.`,
+    '',
+    `Index of the site: ${SITE_URL}/llms.txt`,
+  ].join('\n');
+
+  const notes = posts.map((post) => formatPostMarkdown(getPostMarkdown(post.id)!));
+
+  return [`${header}\n`, ...notes].join('\n---\n\n');
+}
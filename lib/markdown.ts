@@ -0,0 +1,63 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkDirective from 'remark-directive';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypePrettyCode from 'rehype-pretty-code';
+import { transformerNotationDiff, transformerNotationFocus } from '@shikijs/transformers';
+import rehypeStringify from 'rehype-stringify';
+import { rehypeHeadingAnchors, type TocItem } from './rehype-heading-anchors';
+import { rehypeRunnableKotlin } from './rehype-runnable-kotlin';
+import { rehypeSanitizeContent } from './rehype-sanitize-content';
+import { rehypeScrollableTables } from './rehype-scrollable-tables';
+import { remarkCallouts } from './remark-callouts';
+import { remarkMermaid } from './remark-mermaid';
+
+export type RenderedMarkdown = {
+  html: string;
+  toc: TocItem[];
+};
+
+/**
+ * Markdown to HTML pipeline shared by notes and app documents. `filePath` only
+ * names the source in build warnings.
+ */
+export async function renderMarkdown(markdown: string, filePath?: string): Promise<RenderedMarkdown> {
+  const file = await unified()
+    .use(remarkParse)
+    // Tables, task lists, strikethrough, footnotes and autolinked URLs.
+    .use(remarkGfm)
+    .use(remarkDirective)
+    .use(remarkCallouts)
+    .use(remarkMermaid)
+    .use(remarkRehype, {
+      allowDangerousHtml: true,
+      footnoteLabelProperties: { className: ['footnotes-title'] },
+    })
+    .use(rehypeSanitizeContent)
+    .use(rehypeHeadingAnchors)
+    .use(rehypeScrollableTables)
+    .use(rehypeRunnableKotlin)
+    .use(rehypePrettyCode, {
+      // Both palettes are emitted as CSS variables; globals.css switches on prefers-color-scheme.
+      theme: {
+        light: 'github-light',
+        dark: 'github-dark-dimmed',
+      },
+      keepBackground: true,
+      // `// [!code ++]`, `// [!code --]` and `// [!code focus]` comments at the end of a line.
+      transformers: [transformerNotationDiff(), transformerNotationFocus()],
+      onVisitLine(node: { children: unknown[] }) {
+        if (node.children.length === 0) {
+          node.children = [{ type: 'text', value: ' ' }];
+        }
+      },
+    })
+    .use(rehypeStringify)
+    .process({ value: markdown, path: filePath });
+
+  return {
+    html: file.toString(),
+    toc: file.data.toc ?? [],
+  };
+}
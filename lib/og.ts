@@ -0,0 +1,58 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { ReactElement } from 'react';
+import { ImageResponse } from 'next/og';
+
+type ImageResponseOptions = NonNullable<ConstructorParameters<typeof ImageResponse>[1]>;
+type OgFont = NonNullable<ImageResponseOptions['fonts']>[number];
+
+export const OG_IMAGE_SIZE = {
+  width: 1200,
+  height: 630,
+};
+
+const fontsDirectory = path.join(process.cwd(), 'assets/fonts');
+
+// Vendored from @fontsource (OFL-1.1, see assets/fonts/LICENSE-*.txt). Satori reads woff but not woff2.
+const OG_FONT_FILES: { name: string; weight: OgFont['weight']; file: string }[] = [
+  { name: 'Inter', weight: 400, file: 'inter-latin-400-normal.woff' },
+  { name: 'Inter', weight: 700, file: 'inter-latin-700-normal.woff' },
+  { name: 'Inter', weight: 800, file: 'inter-latin-800-normal.woff' },
+  { name: 'JetBrains Mono', weight: 400, file: 'jetbrains-mono-latin-400-normal.woff' },
+  { name: 'JetBrains Mono', weight: 700, file: 'jetbrains-mono-latin-700-normal.woff' },
+];
+
+let fontsPromise: Promise<OgFont[]> | null = null;
+
+async function loadFont({ name, weight, file }: (typeof OG_FONT_FILES)[number]): Promise<OgFont | null> {
+  try {
+    const data = await fs.readFile(path.join(fontsDirectory, file));
+    return { name, data, weight, style: 'normal' };
+  } catch (error) {
+    console.warn(`⚠ OG image font ${file} could not be loaded, falling back to the default font: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Fonts for every opengraph-image route, read from disk once per server process.
+ * A missing file only drops that face; the renderer's built-in font covers the rest.
+ * A rejected load is not cached, so the next render tries again.
+ */
+export function getOgFonts() {
+  fontsPromise ??= Promise.all(OG_FONT_FILES.map(loadFont))
+    .then((fonts) => fonts.filter((font): font is OgFont => font !== null))
+    .catch((error: unknown) => {
+      fontsPromise = null;
+      throw error;
+    });
+  return fontsPromise;
+}
+
+/** An OG-sized ImageResponse with the shared fonts. */
+export async function renderOgImage(element: ReactElement) {
+  return new ImageResponse(element, {
+    ...OG_IMAGE_SIZE,
+    fonts: await getOgFonts(),
+  });
+}
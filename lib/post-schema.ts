@@ -0,0 +1,168 @@
+export const POST_STATUSES = ['draft', 'scheduled', 'unlisted', 'published'] as const;
+
+export type PostStatus = (typeof POST_STATUSES)[number];
+
+export type PostFrontmatter = {
+  status: PostStatus;
+  date: string;
+  title: string;
+  description: string;
+  tags: string[];
+  series?: string;
+  seriesOrder?: number;
+  updated?: string;
+  changelog?: ChangelogEntry[];
+};
+
+export type ChangelogEntry = {
+  date: string;
+  note: string;
+};
+
+export const TITLE_MAX_LENGTH = 100;
+// Search engines truncate meta descriptions past ~160 characters; very short ones get replaced.
+export const DESCRIPTION_MIN_LENGTH = 50;
+export const DESCRIPTION_MAX_LENGTH = 180;
+
+export type FrontmatterIssue = {
+  field: string;
+  message: string;
+};
+
+export class PostValidationError extends Error {
+  constructor(readonly failures: { file: string; issues: FrontmatterIssue[] }[]) {
+    super(formatValidationReport(failures));
+    this.name = 'PostValidationError';
+  }
+}
+
+export function formatValidationReport(failures: { file: string; issues: FrontmatterIssue[] }[]) {
+  const lines = failures.flatMap(({ file, issues }) => [
+    `${file}:`,
+    ...issues.map((issue) => `  - ${issue.field}: ${issue.message}`),
+  ]);
+  const count = failures.length === 1 ? '1 post' : `${failures.length} posts`;
+  return `Invalid frontmatter in ${count}:\n${lines.join('\n')}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD date and rejects impossible calendar days (2026-02-30).
+ * YAML turns unquoted dates into Date objects, so those are accepted too.
+ */
+function parseIsoDate(value: unknown) {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    return null;
+  }
+  return value;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+export function validatePostFrontmatter(data: Record<string, unknown>) {
+  const issues: FrontmatterIssue[] = [];
+
+  if (!isNonEmptyString(data.title)) {
+    issues.push({ field: 'title', message: 'is required' });
+  } else if (data.title.length > TITLE_MAX_LENGTH) {
+    issues.push({ field: 'title', message: `must be at most ${TITLE_MAX_LENGTH} characters (got ${data.title.length})` });
+  }
+
+  const date = parseIsoDate(data.date);
+  if (data.date === undefined) {
+    issues.push({ field: 'date', message: 'is required' });
+  } else if (!date) {
+    issues.push({ field: 'date', message: `must be a valid YYYY-MM-DD date (got ${JSON.stringify(data.date)})` });
+  }
+
+  if (!isNonEmptyString(data.description)) {
+    issues.push({ field: 'description', message: 'is required' });
+  } else if (data.description.length < DESCRIPTION_MIN_LENGTH || data.description.length > DESCRIPTION_MAX_LENGTH) {
+    issues.push({
+      field: 'description',
+      message: `must be ${DESCRIPTION_MIN_LENGTH}-${DESCRIPTION_MAX_LENGTH} characters (got ${data.description.length})`,
+    });
+  }
+
+  if (!Array.isArray(data.tags) || data.tags.length === 0) {
+    issues.push({ field: 'tags', message: 'must be a non-empty list' });
+  } else if (!data.tags.every(isNonEmptyString)) {
+    issues.push({ field: 'tags', message: 'must only contain non-empty strings' });
+  }
+
+  const updated = parseIsoDate(data.updated);
+  if (data.updated !== undefined) {
+    if (!updated) {
+      issues.push({ field: 'updated', message: `must be a valid YYYY-MM-DD date (got ${JSON.stringify(data.updated)})` });
+    } else if (date && updated < date) {
+      issues.push({ field: 'updated', message: `must not be earlier than date ${date}` });
+    }
+  }
+
+  const changelog: ChangelogEntry[] = [];
+  if (data.changelog !== undefined) {
+    if (!Array.isArray(data.changelog)) {
+      issues.push({ field: 'changelog', message: 'must be a list of { date, note } entries' });
+    } else {
+      data.changelog.forEach((entry: unknown, index: number) => {
+        const item = (entry ?? {}) as Record<string, unknown>;
+        const entryDate = parseIsoDate(item.date);
+        if (!entryDate || !isNonEmptyString(item.note)) {
+          issues.push({ field: `changelog[${index}]`, message: 'needs a YYYY-MM-DD date and a non-empty note' });
+        } else {
+          changelog.push({ date: entryDate, note: item.note });
+        }
+      });
+    }
+  }
+
+  if (data.status !== undefined && !POST_STATUSES.includes(data.status as PostStatus)) {
+    issues.push({ field: 'status', message: `must be one of ${POST_STATUSES.join(', ')} (got ${JSON.stringify(data.status)})` });
+  }
+
+  const hasSeries = data.series !== undefined;
+  const hasSeriesOrder = data.seriesOrder !== undefined;
+  if (hasSeries && !isNonEmptyString(data.series)) {
+    issues.push({ field: 'series', message: 'must be a series slug' });
+  }
+  if (hasSeriesOrder && !(Number.isInteger(data.seriesOrder) && (data.seriesOrder as number) > 0)) {
+    issues.push({ field: 'seriesOrder', message: 'must be a positive integer' });
+  }
+  if (hasSeries !== hasSeriesOrder) {
+    issues.push({ field: hasSeries ? 'seriesOrder' : 'series', message: 'series and seriesOrder must be set together' });
+  }
+
+  if (issues.length > 0) {
+    return { issues, frontmatter: null };
+  }
+
+  const frontmatter: PostFrontmatter = {
+    status: (data.status as PostStatus | undefined) ?? 'published',
+    title: data.title as string,
+    date: date as string,
+    description: data.description as string,
+    tags: data.tags as string[],
+  };
+  if (updated) {
+    frontmatter.updated = updated;
+  }
+  if (changelog.length > 0) {
+    // Newest first, matching how the page renders it.
+    frontmatter.changelog = changelog.sort((a, b) => b.date.localeCompare(a.date));
+  }
+  if (hasSeries) {
+    frontmatter.series = data.series as string;
+    frontmatter.seriesOrder = data.seriesOrder as number;
+  }
+
+  return { issues, frontmatter };
+}
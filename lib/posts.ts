@@ -1,38 +1,222 @@
 import fs from 'fs';
 import path from 'path';
+import { execFileSync } from 'child_process';
 import matter from 'gray-matter';
 import { unified } from 'unified';
 import remarkParse from 'remark-parse';
-import remarkRehype from 'remark-rehype';
-import rehypePrettyCode from 'rehype-pretty-code';
-import rehypeStringify from 'rehype-stringify';
+import { visit } from 'unist-util-visit';
+import type { Root as MdastRoot } from 'mdast';
+import {
+  PostValidationError,
+  validatePostFrontmatter,
+  type FrontmatterIssue,
+  type PostFrontmatter,
+} from './post-schema';
+import { ContentLintError, formatLintIssues, lintPosts } from './content-lint';
+import { normalizeTag, normalizeTags, type TagInfo } from './tags';
+import { getSeriesInfo, type SeriesInfo } from './series';
+import type { SearchDocument } from './search';
+import { renderMarkdown } from './markdown';
+import { getReadingStats, type ReadingStats } from './reading-stats';
 
 const postsDirectory = path.join(process.cwd(), 'content/android');
 
-export function getSortedPostsData() {
+export type { PostFrontmatter };
+
+export type PostMeta = { id: string } & PostFrontmatter & {
+  /** Last meaningful edit: `updated` frontmatter, else the publish date (see resolveUpdatedDate). */
+  updated: string;
+  readingStats: ReadingStats;
+};
+
+export type PostFileFailure = {
+  file: string;
+  issues: FrontmatterIssue[];
+};
+
+function getPostFileNames() {
   if (!fs.existsSync(postsDirectory)) {
     return [];
   }
-  
-  const fileNames = fs.readdirSync(postsDirectory);
+
   // Filter out non-markdown files and files starting with underscore (templates/drafts)
-  const filteredFileNames = fileNames.filter(fileName => 
+  return fs.readdirSync(postsDirectory).filter(fileName =>
     fileName.endsWith('.md') && !fileName.startsWith('_')
   );
+}
 
-  const allPostsData = filteredFileNames.map((fileName) => {
-    const id = fileName.replace(/\.md$/, '');
-    const fullPath = path.join(postsDirectory, fileName);
-    const fileContents = fs.readFileSync(fullPath, 'utf8');
-    const matterResult = matter(fileContents);
+function runGit(args: string[]) {
+  try {
+    return execFileSync('git', args, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return null;
+  }
+}
 
-    return {
-      id,
-      ...(matterResult.data as { date: string; title: string; description: string; tags: string[] }),
-    };
-  });
-  
-  return allPostsData.sort((a, b) => {
+let gitHistory: { ignoredRevs: Set<string> } | null | undefined;
+
+/** Commits to skip (`.git-blame-ignore-revs`), or null when git history can't be trusted. */
+function getGitHistory() {
+  if (gitHistory === undefined) {
+    if (runGit(['rev-parse', '--is-shallow-repository']) !== 'false') {
+      gitHistory = null;
+    } else {
+      const ignoreFile = path.join(process.cwd(), '.git-blame-ignore-revs');
+      const ignored = fs.existsSync(ignoreFile) ? fs.readFileSync(ignoreFile, 'utf8') : '';
+      gitHistory = {
+        ignoredRevs: new Set(ignored.split('\n').map((line) => line.replace(/#.*/, '').trim()).filter(Boolean)),
+      };
+    }
+  }
+
+  return gitHistory;
+}
+
+const gitDates = new Map<string, string | null>();
+
+/**
+ * Date (YYYY-MM-DD) of the last commit touching a file that isn't listed in
+ * `.git-blame-ignore-revs`; null outside a full (non-shallow) git checkout.
+ */
+function getGitLastModified(fullPath: string) {
+  if (!gitDates.has(fullPath)) {
+    const history = getGitHistory();
+    const log = history ? runGit(['log', '--format=%H %cs', '--', fullPath]) : null;
+    const lastCommit = (log ?? '')
+      .split('\n')
+      .map((line) => line.split(' '))
+      .find(([hash, date]) => hash && !history!.ignoredRevs.has(hash) && /^\d{4}-\d{2}-\d{2}$/.test(date ?? ''));
+    gitDates.set(fullPath, lastCommit?.[1] ?? null);
+  }
+
+  return gitDates.get(fullPath) ?? null;
+}
+
+/**
+ * `updated` frontmatter, else the file's last meaningful commit, else the publish date.
+ * Mechanical sweeps are skipped via `.git-blame-ignore-revs`, and a shallow clone
+ * (where every file would date to the deploy) falls back to the publish date.
+ */
+function resolveUpdatedDate(fullPath: string, frontmatter: PostFrontmatter) {
+  if (frontmatter.updated) return frontmatter.updated;
+
+  const gitDate = getGitLastModified(fullPath);
+  return gitDate && gitDate > frontmatter.date ? gitDate : frontmatter.date;
+}
+
+type FileCache<T> = Map<string, { mtimeMs: number; value: T }>;
+
+/**
+ * Memoizes a parse of a post file until the file changes on disk. Lists are read
+ * many times per page render (and per request in `next dev`), so anything that
+ * walks the markdown must not rerun for unchanged files.
+ */
+function cachedForFile<T>(cache: FileCache<T>, fullPath: string, mtimeMs: number, compute: () => T) {
+  const cached = cache.get(fullPath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.value;
+
+  const value = compute();
+  cache.set(fullPath, { mtimeMs, value });
+  return value;
+}
+
+const readingStatsCache: FileCache<ReadingStats> = new Map();
+
+function readPostFile(id: string) {
+  const fullPath = path.join(postsDirectory, `${id}.md`);
+  const { mtimeMs } = fs.statSync(fullPath);
+  const matterResult = matter(fs.readFileSync(fullPath, 'utf8'));
+  const { issues, frontmatter } = validatePostFrontmatter(matterResult.data);
+
+  if (!frontmatter) {
+    throw new PostValidationError([{ file: path.relative(process.cwd(), fullPath), issues }]);
+  }
+
+  return {
+    id,
+    fullPath,
+    mtimeMs,
+    content: matterResult.content,
+    frontmatter: {
+      ...frontmatter,
+      tags: normalizeTags(frontmatter.tags),
+      updated: resolveUpdatedDate(fullPath, frontmatter),
+      readingStats: cachedForFile(readingStatsCache, fullPath, mtimeMs, () => getReadingStats(matterResult.content)),
+    },
+  };
+}
+
+/**
+ * Reads and validates every post, collecting failures instead of stopping at
+ * the first bad file so a single run reports everything that needs fixing.
+ */
+export function loadAllPosts() {
+  const posts: PostMeta[] = [];
+  const failures: PostFileFailure[] = [];
+
+  for (const fileName of getPostFileNames()) {
+    try {
+      const { id, frontmatter } = readPostFile(fileName.replace(/\.md$/, ''));
+      posts.push({ id, ...frontmatter });
+    } catch (error) {
+      if (!(error instanceof PostValidationError)) throw error;
+      failures.push(...error.failures);
+    }
+  }
+
+  return { posts, failures, lintIssues: lintPosts(posts) };
+}
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a post has a page at all. Drafts only render in `next dev`;
+ * scheduled posts go live once their date has passed at build time.
+ */
+function isPostRoutable(post: Pick<PostFrontmatter, 'status' | 'date'>) {
+  switch (post.status) {
+    case 'published':
+    case 'unlisted':
+      return true;
+    case 'scheduled':
+      return isDevelopment || post.date <= today();
+    case 'draft':
+      return isDevelopment;
+  }
+}
+
+/** Whether a post shows up in lists, the homepage, tag/series pages, the sitemap, feeds and search. */
+function isPostListed(post: Pick<PostFrontmatter, 'status' | 'date'>) {
+  return post.status !== 'unlisted' && isPostRoutable(post);
+}
+
+// getSortedPostsData runs for every page during a build; report each warning once.
+const reportedLintWarnings = new Set<string>();
+
+function getValidatedPosts() {
+  const { posts, failures, lintIssues } = loadAllPosts();
+
+  if (failures.length > 0) {
+    throw new PostValidationError(failures);
+  }
+
+  const lintErrors = lintIssues.filter((issue) => issue.severity === 'error');
+  if (lintErrors.length > 0) {
+    throw new ContentLintError(lintErrors);
+  }
+
+  for (const issue of lintIssues) {
+    const message = formatLintIssues([issue]);
+    if (reportedLintWarnings.has(message)) continue;
+    reportedLintWarnings.add(message);
+    console.warn(`⚠ ${message}`);
+  }
+
+  return posts.sort((a, b) => {
     if (a.date < b.date) {
       return 1;
     } else {
@@ -41,19 +225,189 @@ export function getSortedPostsData() {
   });
 }
 
-export function getAllPostIds() {
-  if (!fs.existsSync(postsDirectory)) {
-    return [];
+export function getSortedPostsData() {
+  return getValidatedPosts().filter(isPostListed);
+}
+
+export const POSTS_PER_PAGE = 12;
+
+/** One page of the /android index; page 1 is /android itself, the rest live at /android/page/[n]. */
+export function getPaginatedPosts(page: number) {
+  const posts = getSortedPostsData();
+  const totalPages = Math.max(1, Math.ceil(posts.length / POSTS_PER_PAGE));
+
+  if (!Number.isInteger(page) || page < 1 || page > totalPages) {
+    return null;
   }
-  const fileNames = fs.readdirSync(postsDirectory);
-  const filteredFileNames = fileNames.filter(fileName => 
-    fileName.endsWith('.md') && !fileName.startsWith('_')
+
+  const start = (page - 1) * POSTS_PER_PAGE;
+  return {
+    posts: posts.slice(start, start + POSTS_PER_PAGE),
+    page,
+    totalPages,
+    totalPosts: posts.length,
+    offset: start,
+  };
+}
+
+export function getPostsPagePath(page: number) {
+  return page === 1 ? '/android' : `/android/page/${page}`;
+}
+
+export type ArchiveMonth = {
+  key: string;
+  label: string;
+  posts: PostMeta[];
+};
+
+export type ArchiveYear = {
+  year: string;
+  months: ArchiveMonth[];
+};
+
+const monthFormatter = new Intl.DateTimeFormat('en-US', { month: 'long', timeZone: 'UTC' });
+
+/** Published posts grouped by year and month, newest first. */
+export function getPostArchive(): ArchiveYear[] {
+  const years: ArchiveYear[] = [];
+
+  for (const post of getSortedPostsData()) {
+    const year = post.date.slice(0, 4);
+    const key = post.date.slice(0, 7);
+
+    let yearGroup = years.find((group) => group.year === year);
+    if (!yearGroup) {
+      yearGroup = { year, months: [] };
+      years.push(yearGroup);
+    }
+
+    let monthGroup = yearGroup.months.find((group) => group.key === key);
+    if (!monthGroup) {
+      monthGroup = { key, label: monthFormatter.format(new Date(`${key}-01T00:00:00Z`)), posts: [] };
+      yearGroup.months.push(monthGroup);
+    }
+
+    monthGroup.posts.push(post);
+  }
+
+  return years;
+}
+
+export type TagSummary = TagInfo & {
+  count: number;
+};
+
+/** Registry info and note count for every tag used by `posts`, most used first. */
+export function summarizeTags(posts: Pick<PostMeta, 'tags'>[]): TagSummary[] {
+  const summaries = new Map<string, TagSummary>();
+
+  for (const post of posts) {
+    for (const name of post.tags) {
+      const tag = normalizeTag(name);
+      const existing = summaries.get(tag.slug);
+      summaries.set(tag.slug, { ...tag, count: (existing?.count ?? 0) + 1 });
+    }
+  }
+
+  return [...summaries.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+export function getAllTags() {
+  return summarizeTags(getSortedPostsData());
+}
+
+// A tag with a single note only repeats that note's page; it stays browsable
+// but is kept out of search indexes and the sitemap.
+const MIN_INDEXED_TAG_POSTS = 2;
+
+export function isTagIndexed(tag: Pick<TagSummary, 'count'>) {
+  return tag.count >= MIN_INDEXED_TAG_POSTS;
+}
+
+export function getTagData(slug: string) {
+  const tag = getAllTags().find((item) => item.slug === slug);
+  if (!tag) return null;
+
+  const posts = getSortedPostsData().filter((post) =>
+    post.tags.some((name) => normalizeTag(name).slug === slug)
   );
 
-  return filteredFileNames.map((fileName) => {
+  return { tag, posts };
+}
+
+export type SeriesPart = {
+  id: string;
+  title: string;
+  date: string;
+  description: string;
+  order: number;
+};
+
+export type SeriesData = SeriesInfo & {
+  parts: SeriesPart[];
+  totalParts: number;
+};
+
+export function getAllSeries(): SeriesData[] {
+  const partsBySeries = new Map<string, SeriesPart[]>();
+
+  for (const post of getSortedPostsData()) {
+    if (!post.series || typeof post.seriesOrder !== 'number') continue;
+
+    const parts = partsBySeries.get(post.series) ?? [];
+    parts.push({
+      id: post.id,
+      title: post.title,
+      date: post.date,
+      description: post.description,
+      order: post.seriesOrder,
+    });
+    partsBySeries.set(post.series, parts);
+  }
+
+  return [...partsBySeries.entries()].map(([slug, parts]) => {
+    const info = getSeriesInfo(slug);
+    const sortedParts = parts.sort((a, b) => a.order - b.order);
+    return {
+      ...info,
+      parts: sortedParts,
+      // Published parts can outnumber the plan once a track grows past it.
+      totalParts: Math.max(info.plannedParts ?? 0, sortedParts.length, sortedParts[sortedParts.length - 1].order),
+    };
+  });
+}
+
+export function getSeriesData(slug: string) {
+  return getAllSeries().find((item) => item.slug === slug) ?? null;
+}
+
+/**
+ * Position of a post inside its series plus the neighbouring published parts,
+ * used for the "Part N of M" navigator on the post page.
+ */
+export function getPostSeriesNavigation(id: string) {
+  const allSeries = getAllSeries();
+
+  for (const item of allSeries) {
+    const index = item.parts.findIndex((part) => part.id === id);
+    if (index === -1) continue;
+
+    return {
+      series: item,
+      part: item.parts[index],
+      previous: item.parts[index - 1] ?? null,
+      next: item.parts[index + 1] ?? null,
+    };
+  }
+
+  return null;
+}
+
+export function getAllPostIds() {
+  return getValidatedPosts().filter(isPostRoutable).map((post) => {
     return {
       params: {
-        slug: fileName.replace(/\.md$/, ''),
+        slug: post.id,
       },
     };
   });
@@ -63,12 +417,12 @@ export function getPostFrontmatter(id: string) {
   const fullPath = path.join(postsDirectory, `${id}.md`);
   if (!fs.existsSync(fullPath)) return null;
 
-  const fileContents = fs.readFileSync(fullPath, 'utf8');
-  const matterResult = matter(fileContents);
+  const { frontmatter } = readPostFile(id);
+  if (!isPostRoutable(frontmatter)) return null;
 
   return {
     id,
-    ...(matterResult.data as { date: string; title: string; description: string; tags: string[] }),
+    ...frontmatter,
   };
 }
 
@@ -76,29 +430,91 @@ export async function getPostData(id: string) {
   const fullPath = path.join(postsDirectory, `${id}.md`);
   if (!fs.existsSync(fullPath)) return null;
   
-  const fileContents = fs.readFileSync(fullPath, 'utf8');
-  const matterResult = matter(fileContents);
-
-  const processedContent = await unified()
-    .use(remarkParse)
-    .use(remarkRehype, { allowDangerousHtml: true })
-    .use(rehypePrettyCode, {
-      theme: 'github-dark-dimmed',
-      keepBackground: true,
-      onVisitLine(node: { children: unknown[] }) {
-        if (node.children.length === 0) {
-          node.children = [{ type: 'text', value: ' ' }];
-        }
-      },
-    })
-    .use(rehypeStringify, { allowDangerousHtml: true })
-    .process(matterResult.content);
+  const { frontmatter, content } = readPostFile(id);
+  if (!isPostRoutable(frontmatter)) return null;
 
-  const contentHtml = processedContent.toString();
+  const { html: contentHtml, toc } = await renderMarkdown(content, path.relative(process.cwd(), fullPath));
 
   return {
     id,
     contentHtml,
-    ...(matterResult.data as { date: string; title: string; description: string; tags: string[] }),
+    toc,
+    ...frontmatter,
+  };
+}
+
+/** Markdown source of a post without its frontmatter, for the plain-text endpoints (/android/[slug].md, llms-full.txt). */
+export function getPostMarkdown(id: string) {
+  const fullPath = path.join(postsDirectory, `${id}.md`);
+  if (!fs.existsSync(fullPath)) return null;
+
+  const { frontmatter, content } = readPostFile(id);
+  if (!isPostRoutable(frontmatter)) return null;
+
+  return {
+    id,
+    content,
+    ...frontmatter,
   };
 }
+
+// CamelCase and camelCase names are what readers search for in code ("SupportFactory", "rememberSaveable").
+const CODE_IDENTIFIER_PATTERN = /\b(?:[A-Z][a-z0-9]+[A-Z][A-Za-z0-9]*|[a-z][a-z0-9]*[A-Z][A-Za-z0-9]*|[A-Z][a-z0-9]{3,})\b/g;
+
+function extractSearchFields(markdown: string) {
+  const tree = unified().use(remarkParse).parse(markdown) as MdastRoot;
+  const headings: string[] = [];
+  const code = new Set<string>();
+  const body: string[] = [];
+
+  visit(tree, (node) => {
+    if (node.type === 'heading') {
+      const text: string[] = [];
+      visit(node, 'text', (child) => {
+        text.push(child.value);
+      });
+      visit(node, 'inlineCode', (child) => {
+        text.push(child.value);
+      });
+      headings.push(text.join(''));
+      return 'skip';
+    }
+
+    if (node.type === 'code') {
+      for (const identifier of node.value.match(CODE_IDENTIFIER_PATTERN) ?? []) {
+        code.add(identifier);
+      }
+      return 'skip';
+    }
+
+    if (node.type === 'inlineCode') {
+      code.add(node.value);
+      body.push(node.value);
+    } else if (node.type === 'text') {
+      body.push(node.value);
+    }
+  });
+
+  return {
+    headings,
+    code: [...code],
+    body: body.join(' ').replace(/\s+/g, ' ').trim(),
+  };
+}
+
+const searchFieldsCache: FileCache<ReturnType<typeof extractSearchFields>> = new Map();
+
+export function getSearchDocuments(): SearchDocument[] {
+  return getSortedPostsData().map((post) => {
+    const { fullPath, mtimeMs, content } = readPostFile(post.id);
+
+    return {
+      id: post.id,
+      title: post.title,
+      description: post.description,
+      date: post.date,
+      tags: post.tags,
+      ...cachedForFile(searchFieldsCache, fullPath, mtimeMs, () => extractSearchFields(content)),
+    };
+  });
+}
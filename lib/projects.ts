@@ -0,0 +1,29 @@
+import { CatalogValidationError, loadProjects } from './catalog';
+
+/** One "Selected Work" entry from content/projects/<slug>.md; the markdown body is the description. */
+export type ProjectInfo = {
+  slug: string;
+  order: number;
+  title: string;
+  description: string;
+  /** One-line description for llms.txt, written to follow "Title: ". */
+  summary: string;
+  href: string;
+  tag: string;
+  /** Featured projects are listed in the site-wide ItemList JSON-LD. */
+  featured: boolean;
+};
+
+function getValidatedProjects() {
+  const { projects, failures } = loadProjects();
+  if (failures.length > 0) {
+    throw new CatalogValidationError(failures);
+  }
+  return projects;
+}
+
+export const projects: ProjectInfo[] = getValidatedProjects();
+
+export function getFeaturedProjects() {
+  return projects.filter((project) => project.featured);
+}
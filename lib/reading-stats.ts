@@ -0,0 +1,53 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import { visit } from 'unist-util-visit';
+import type { Root } from 'mdast';
+
+export type ReadingStats = {
+  /** Words of prose and code combined. */
+  wordCount: number;
+  codeBlockCount: number;
+  readingMinutes: number;
+};
+
+// Readers skim prose but trace code line by line, so code counts at a much slower pace.
+const PROSE_WORDS_PER_MINUTE = 230;
+const CODE_WORDS_PER_MINUTE = 80;
+
+function countWords(value: string) {
+  return value.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+export function getReadingStats(markdown: string): ReadingStats {
+  const tree = unified().use(remarkParse).parse(markdown) as Root;
+  let proseWords = 0;
+  let codeWords = 0;
+  let codeBlockCount = 0;
+
+  visit(tree, (node) => {
+    switch (node.type) {
+      case 'code':
+        // Diagrams render as images; their source is neither read nor a code sample.
+        if (node.lang === 'mermaid') return 'skip';
+        codeBlockCount++;
+        codeWords += countWords(node.value);
+        return 'skip';
+      case 'inlineCode':
+      case 'text':
+        proseWords += countWords(node.value);
+        return;
+      case 'html':
+        // Raw HTML callouts still contain prose once the tags are gone.
+        proseWords += countWords(node.value.replace(/<[^>]+>/g, ' '));
+        return;
+    }
+  });
+
+  const minutes = proseWords / PROSE_WORDS_PER_MINUTE + codeWords / CODE_WORDS_PER_MINUTE;
+
+  return {
+    wordCount: proseWords + codeWords,
+    codeBlockCount,
+    readingMinutes: Math.max(1, Math.round(minutes)),
+  };
+}
@@ -0,0 +1,79 @@
+import type { Element, ElementContent, Root } from 'hast';
+import type { VFile } from 'vfile';
+import { visit } from 'unist-util-visit';
+
+export type TocItem = {
+  id: string;
+  text: string;
+  depth: 2 | 3;
+};
+
+const HEADING_DEPTHS: Record<string, TocItem['depth'] | undefined> = {
+  h2: 2,
+  h3: 3,
+};
+
+function textContent(node: Element | ElementContent): string {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(textContent).join('');
+  return '';
+}
+
+export function slugifyHeading(value: string) {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Gives every h2/h3 a stable slug id, appends a hover anchor link, and stores
+ * the resulting outline on `file.data.toc` for the post page to render.
+ * Footnotes are left alone and don't appear in the outline.
+ */
+export function rehypeHeadingAnchors() {
+  return (tree: Root, file: VFile) => {
+    const toc: TocItem[] = [];
+    const used = new Map<string, number>();
+
+    visit(tree, 'element', (node) => {
+      // GFM's footnote section has its own label heading; its id is referenced by every footnote link.
+      if (node.tagName === 'section' && node.properties.dataFootnotes !== undefined) return 'skip';
+
+      const depth = HEADING_DEPTHS[node.tagName];
+      if (!depth) return;
+
+      const text = textContent(node).trim();
+      const base = slugifyHeading(text) || 'section';
+      const count = used.get(base) ?? 0;
+      used.set(base, count + 1);
+      const id = count === 0 ? base : `${base}-${count}`;
+
+      node.properties = { ...node.properties, id };
+      node.children.push({
+        type: 'element',
+        tagName: 'a',
+        properties: {
+          href: `#${id}`,
+          className: ['heading-anchor'],
+          ariaLabel: `Link to section: ${text}`,
+        },
+        children: [{ type: 'text', value: '#' }],
+      });
+
+      toc.push({ id, text, depth });
+      return 'skip';
+    });
+
+    file.data.toc = toc;
+  };
+}
+
+declare module 'vfile' {
+  interface DataMap {
+    toc: TocItem[];
+  }
+}
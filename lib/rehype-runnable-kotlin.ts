@@ -0,0 +1,40 @@
+import type { Element, Root } from 'hast';
+import { SKIP, visit } from 'unist-util-visit';
+import { splitPlaygroundSource } from './kotlin-playground';
+
+const RUNNABLE_FLAG = /(^|\s)runnable(?=\s|$)/;
+
+function isKotlinCode(node: Element) {
+  const className = node.properties.className;
+  return node.tagName === 'code' && Array.isArray(className) && className.includes('language-kotlin');
+}
+
+/**
+ * Wraps ```kotlin runnable blocks in `<div class="kotlin-runnable" data-kotlin-source>`
+ * for the client playground, and trims the highlighted code to the part between
+ * `//sampleStart` and `//sampleEnd`. Runs before rehype-pretty-code, which still
+ * highlights the block, so it reads fine without JavaScript or a compile server.
+ */
+export function rehypeRunnableKotlin() {
+  return (tree: Root) => {
+    visit(tree, 'element', (node, index, parent) => {
+      if (node.tagName !== 'pre' || !parent || index === undefined) return;
+
+      const code = node.children.find((child): child is Element => child.type === 'element' && isKotlinCode(child));
+      const meta = code?.data?.meta;
+      if (!code || typeof meta !== 'string' || !RUNNABLE_FLAG.test(meta)) return;
+
+      const source = code.children.map((child) => (child.type === 'text' ? child.value : '')).join('');
+      code.children = [{ type: 'text', value: splitPlaygroundSource(source).visible }];
+      code.data = { ...code.data, meta: meta.replace(RUNNABLE_FLAG, ' ').trim() };
+
+      parent.children[index] = {
+        type: 'element',
+        tagName: 'div',
+        properties: { className: ['kotlin-runnable'], dataKotlinSource: source },
+        children: [node],
+      };
+      return SKIP;
+    });
+  };
+}
@@ -0,0 +1,115 @@
+import type { Element, Nodes, Root } from 'hast';
+import type { VFile } from 'vfile';
+import { raw } from 'hast-util-raw';
+import { defaultSchema, sanitize, type Schema } from 'hast-util-sanitize';
+import { find, html } from 'property-information';
+import { visit } from 'unist-util-visit';
+import { CALLOUT_TITLES } from './remark-callouts';
+
+/** Embeds notes may use; any other iframe loses its `src`. */
+const IFRAME_SRC = /^https:\/\/(www\.youtube\.com\/embed\/|www\.youtube-nocookie\.com\/embed\/|player\.vimeo\.com\/video\/)/;
+
+// hast-util-raw and hast-util-sanitize both rebuild nodes without `data`, where
+// remark-rehype keeps the fence meta (`title="…" {2} runnable`). It rides along as this property.
+const META_PROPERTY = 'dataFenceMeta';
+
+/**
+ * GitHub's schema plus what the pipeline itself emits before this step: callouts,
+ * Mermaid figures (data: images), footnote labels and fence meta.
+ */
+const schema: Schema = {
+  ...defaultSchema,
+  tagNames: [...defaultSchema.tagNames!, 'aside', 'figure', 'iframe'],
+  attributes: {
+    ...defaultSchema.attributes,
+    aside: [['className', 'callout', ...Object.keys(CALLOUT_TITLES).map((kind) => `callout-${kind}`)], 'dataCallout'],
+    p: [['className', 'callout-title']],
+    div: [...defaultSchema.attributes!.div, ['className', 'key-takeaway']],
+    figure: [['className', 'mermaid-diagram']],
+    img: [...defaultSchema.attributes!.img, 'loading', 'decoding'],
+    h2: [['className', 'sr-only', 'footnotes-title']],
+    code: [...defaultSchema.attributes!.code, META_PROPERTY],
+    iframe: [['src', IFRAME_SRC], 'title', 'allow', 'allowFullScreen', 'loading', 'referrerPolicy'],
+  },
+  protocols: {
+    ...defaultSchema.protocols,
+    src: [...(defaultSchema.protocols!.src ?? []), 'data'],
+  },
+};
+
+const CLOBBER_PREFIX = defaultSchema.clobberPrefix!;
+const CLOBBER_PROPERTIES = defaultSchema.clobber!;
+
+/**
+ * remark-rehype already gives footnote ids the same `user-content-` prefix the schema
+ * adds against DOM clobbering; collapse the doubled prefix so the footnote links
+ * still match. Every id in author HTML stays prefixed at least once.
+ */
+function collapseDoublePrefix(node: Element) {
+  const doubled = `${CLOBBER_PREFIX}${CLOBBER_PREFIX}`;
+  const collapse = (value: unknown) =>
+    typeof value === 'string' && value.startsWith(doubled) ? value.slice(CLOBBER_PREFIX.length) : value;
+
+  for (const property of CLOBBER_PROPERTIES) {
+    const value = node.properties[property];
+    if (value === undefined) continue;
+    node.properties[property] = (Array.isArray(value) ? value.map(collapse) : collapse(value)) as typeof value;
+  }
+}
+
+/** Every tag and attribute in the tree, counted, so the sanitized tree can be diffed against it. */
+function inventory(tree: Nodes) {
+  const counts = new Map<string, number>();
+  const add = (key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+  visit(tree, 'element', (node) => {
+    add(`<${node.tagName}>`);
+    for (const property of Object.keys(node.properties)) {
+      add(`${find(html, property).attribute} on <${node.tagName}>`);
+    }
+  });
+  return counts;
+}
+
+function isCode(node: Element) {
+  return node.tagName === 'code';
+}
+
+/**
+ * Parses raw HTML written in notes and filters the whole tree through an allowlist:
+ * scripts, event handlers, unknown tags and iframes outside IFRAME_SRC are removed
+ * (the text inside unknown tags is kept). Runs right after remark-rehype, so markup
+ * added later (heading anchors, highlighting, playgrounds) is trusted as-is.
+ * Whatever gets removed is reported as a build warning naming the file.
+ */
+export function rehypeSanitizeContent() {
+  return (tree: Root, file: VFile) => {
+    visit(tree, 'element', (node) => {
+      const meta = node.data?.meta;
+      if (isCode(node) && meta) node.properties[META_PROPERTY] = meta;
+    });
+
+    const parsed = raw(tree, { file });
+    const before = inventory(parsed);
+    const clean = sanitize(parsed, schema) as Root;
+    const after = inventory(clean);
+
+    const removed = [...before]
+      .filter(([key, count]) => count > (after.get(key) ?? 0))
+      .map(([key]) => key);
+    if (removed.length > 0) {
+      console.warn(`⚠ ${file.path ?? 'markdown'}: removed unsafe or unsupported HTML: ${removed.join(', ')}`);
+    }
+
+    visit(clean, 'element', (node) => {
+      collapseDoublePrefix(node);
+
+      const meta = node.properties[META_PROPERTY];
+      if (!isCode(node) || typeof meta !== 'string') return;
+      delete node.properties[META_PROPERTY];
+      node.data = { ...node.data, meta };
+    });
+
+    return clean;
+  };
+}
@@ -0,0 +1,23 @@
+import type { Root } from 'hast';
+import { SKIP, visit } from 'unist-util-visit';
+
+/**
+ * Wraps every `<table>` in `<div class="table-scroll">` so wide GFM tables scroll
+ * sideways on small screens instead of stretching the page. The wrapper is
+ * focusable so keyboard users can scroll it too.
+ */
+export function rehypeScrollableTables() {
+  return (tree: Root) => {
+    visit(tree, 'element', (node, index, parent) => {
+      if (node.tagName !== 'table' || !parent || index === undefined) return;
+
+      parent.children[index] = {
+        type: 'element',
+        tagName: 'div',
+        properties: { className: ['table-scroll'], tabIndex: 0 },
+        children: [node],
+      };
+      return SKIP;
+    });
+  };
+}
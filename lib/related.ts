@@ -0,0 +1,166 @@
+import { getAllSeries, getSearchDocuments, getSortedPostsData } from './posts';
+import { normalizeTag } from './tags';
+import { tokenize, type SearchDocument } from './search';
+
+export type RelatedPost = {
+  id: string;
+  title: string;
+  date: string;
+  description: string;
+  score: number;
+};
+
+export const RELATED_LIMIT = 4;
+
+// Relative weight of each signal in the final score. Text similarity and tag
+// overlap are both in 0..1; sharing a series is a strong editorial signal.
+const TAG_WEIGHT = 1;
+const TEXT_WEIGHT = 1.5;
+const SERIES_WEIGHT = 0.5;
+
+type Vector = Map<string, number>;
+
+function termFrequencies(document: SearchDocument) {
+  const counts = new Map<string, number>();
+  // Title and description describe the topic better than the body, so they count more.
+  const weighted = [
+    ...Array(3).fill(document.title),
+    ...Array(2).fill(document.description),
+    document.headings.join(' '),
+    document.body,
+  ];
+
+  for (const text of weighted) {
+    for (const token of tokenize(text)) {
+      if (token.length < 3) continue;
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+  }
+
+  return counts;
+}
+
+function inverseFrequencies(sets: Set<string>[]) {
+  const df = new Map<string, number>();
+  for (const set of sets) {
+    for (const term of set) {
+      df.set(term, (df.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [term, count] of df) {
+    idf.set(term, Math.log(sets.length / count));
+  }
+  return idf;
+}
+
+function cosine(a: Vector, b: Vector) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    dot += weight * (b.get(term) ?? 0);
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** Weighted overlap: rare shared tags ("SQLCipher") matter more than ubiquitous ones ("Android"). */
+function tagOverlap(a: Set<string>, b: Set<string>, idf: Map<string, number>) {
+  let shared = 0;
+  let total = 0;
+
+  for (const tag of new Set([...a, ...b])) {
+    const weight = idf.get(tag) ?? 0;
+    total += weight;
+    if (a.has(tag) && b.has(tag)) shared += weight;
+  }
+
+  return total === 0 ? 0 : shared / total;
+}
+
+function buildSimilarityModel() {
+  const documents = getSearchDocuments();
+
+  const tagSets = documents.map((document) => new Set(document.tags.map((tag) => normalizeTag(tag).slug)));
+  const tagIdf = inverseFrequencies(tagSets);
+
+  const frequencies = documents.map(termFrequencies);
+  const termIdf = inverseFrequencies(frequencies.map((counts) => new Set(counts.keys())));
+  const vectors: Vector[] = frequencies.map((counts) => {
+    const vector: Vector = new Map();
+    for (const [term, count] of counts) {
+      vector.set(term, (1 + Math.log(count)) * (termIdf.get(term) ?? 0));
+    }
+    return vector;
+  });
+
+  const seriesByPost = new Map<string, string>();
+  for (const series of getAllSeries()) {
+    for (const part of series.parts) seriesByPost.set(part.id, series.slug);
+  }
+
+  return { documents, tagSets, tagIdf, vectors, seriesByPost };
+}
+
+// Every post page needs the same model, so a production build computes it once.
+// `next dev` rebuilds it per request so content edits show up immediately.
+let cachedModel: ReturnType<typeof buildSimilarityModel> | null = null;
+
+function getSimilarityModel() {
+  if (process.env.NODE_ENV !== 'production') return buildSimilarityModel();
+  cachedModel ??= buildSimilarityModel();
+  return cachedModel;
+}
+
+/**
+ * Recommends notes related to `id` from tag overlap, shared series and
+ * TF-IDF similarity of titles, descriptions and bodies. Runs at build time.
+ */
+export function getRelatedPosts(id: string, limit = RELATED_LIMIT): RelatedPost[] {
+  const { documents, tagSets, tagIdf, vectors, seriesByPost } = getSimilarityModel();
+  const currentIndex = documents.findIndex((document) => document.id === id);
+  if (currentIndex === -1) return [];
+
+  const currentSeries = seriesByPost.get(id);
+
+  return documents
+    .map((document, index) => {
+      if (index === currentIndex) return null;
+
+      const sameSeries = currentSeries !== undefined && seriesByPost.get(document.id) === currentSeries;
+      const score =
+        TAG_WEIGHT * tagOverlap(tagSets[currentIndex], tagSets[index], tagIdf) +
+        TEXT_WEIGHT * cosine(vectors[currentIndex], vectors[index]) +
+        (sameSeries ? SERIES_WEIGHT : 0);
+
+      return {
+        id: document.id,
+        title: document.title,
+        date: document.date,
+        description: document.description,
+        score,
+      };
+    })
+    .filter((post): post is RelatedPost => post !== null && post.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/** The chronologically adjacent published notes: `previous` is older, `next` is newer. */
+export function getAdjacentPosts(id: string) {
+  const posts = getSortedPostsData();
+  const index = posts.findIndex((post) => post.id === id);
+  if (index === -1) return { previous: null, next: null };
+
+  return {
+    previous: posts[index + 1] ?? null,
+    next: posts[index - 1] ?? null,
+  };
+}
@@ -0,0 +1,96 @@
+import type { Paragraph, PhrasingContent, Root, RootContent } from 'mdast';
+import type { VFile } from 'vfile';
+import { visit } from 'unist-util-visit';
+
+export const CALLOUT_TITLES = {
+  note: 'Note',
+  tip: 'Tip',
+  warning: 'Warning',
+  takeaway: 'Key Takeaway',
+  pitfall: 'Pitfall',
+} as const;
+
+export type CalloutKind = keyof typeof CALLOUT_TITLES;
+
+function isCalloutKind(name: string): name is CalloutKind {
+  return Object.hasOwn(CALLOUT_TITLES, name);
+}
+
+type DirectiveAttributes = Record<string, string | null | undefined> | null | undefined;
+
+/** `{#id .a .b key="value" flag}` as remark-directive would have read it, or '' without attributes. */
+function attributesAsText(attributes: DirectiveAttributes) {
+  const parts = Object.entries(attributes ?? {}).flatMap(([key, value]): string[] => {
+    if (key === 'id' && value) return [`#${value}`];
+    if (key === 'class' && value) return value.split(/\s+/).filter(Boolean).map((name) => `.${name}`);
+    if (!value) return [key];
+    return [value.includes('"') ? `${key}='${value}'` : `${key}="${value}"`];
+  });
+  return parts.length > 0 ? `{${parts.join(' ')}}` : '';
+}
+
+/** Text an author most likely meant when remark-directive read `a:b` or `::x{y}` as a directive. */
+function directiveAsText(
+  prefix: string,
+  name: string,
+  children: PhrasingContent[],
+  attributes: DirectiveAttributes,
+): PhrasingContent[] {
+  const suffix = attributesAsText(attributes);
+  if (children.length === 0) {
+    return [{ type: 'text', value: `${prefix}${name}${suffix}` }];
+  }
+  return [{ type: 'text', value: `${prefix}${name}[` }, ...children, { type: 'text', value: `]${suffix}` }];
+}
+
+/**
+ * Renders `:::note`, `:::tip`, `:::warning`, `:::takeaway` and `:::pitfall`
+ * blocks as `<aside class="callout callout-{kind}">` with a title paragraph,
+ * taken from the directive label (`:::tip[Faster builds]`) or the kind's default.
+ *
+ * remark-directive also parses inline `:name` and `::name` lines, which show up
+ * in prose ("ratio 16:9" is fine, "see Foo:bar" is not), so those are put back
+ * as plain text instead of disappearing from the page.
+ */
+export function remarkCallouts() {
+  return (tree: Root, file: VFile) => {
+    visit(tree, (node, index, parent) => {
+      if (!parent || index === undefined) return;
+
+      if (node.type === 'containerDirective') {
+        if (!isCalloutKind(node.name)) {
+          console.warn(`⚠ ${file.path ?? 'markdown'}: unknown callout ":::${node.name}", expected one of ${Object.keys(CALLOUT_TITLES).join(', ')}; rendering its content without a box.`);
+          parent.children.splice(index, 1, ...(node.children as RootContent[]));
+          return index;
+        }
+
+        const [first, ...rest] = node.children;
+        const label = first?.type === 'paragraph' && first.data?.directiveLabel ? first : null;
+        const title: Paragraph = {
+          type: 'paragraph',
+          data: { hProperties: { className: ['callout-title'] } },
+          children: label ? label.children : [{ type: 'text', value: CALLOUT_TITLES[node.name] }],
+        };
+
+        node.data = {
+          hName: 'aside',
+          hProperties: { className: ['callout', `callout-${node.name}`], dataCallout: node.name },
+        };
+        node.children = [title, ...(label ? rest : node.children)];
+        return;
+      }
+
+      if (node.type === 'leafDirective') {
+        const paragraph: Paragraph = { type: 'paragraph', children: directiveAsText('::', node.name, node.children, node.attributes) };
+        parent.children.splice(index, 1, paragraph as RootContent);
+        return index + 1;
+      }
+
+      if (node.type === 'textDirective') {
+        const text = directiveAsText(':', node.name, node.children, node.attributes);
+        parent.children.splice(index, 1, ...(text as RootContent[]));
+        return index + text.length;
+      }
+    });
+  };
+}
@@ -0,0 +1,149 @@
+import type { Code, Html, Root } from 'mdast';
+import type { VFile } from 'vfile';
+import { visit } from 'unist-util-visit';
+
+// The page's own palette (app/globals.css). The diagram is an <img>, so it can't read the
+// page's variables; it switches on prefers-color-scheme by itself, like the site does.
+const LIGHT = { bg: '#ffffff', fg: '#27272a' };
+const DARK = { bg: '#09090b', fg: '#f4f4f5' };
+
+const ACCESSIBILITY_LINE = /^\s*(accTitle|accDescr)\s*:\s*(.+?)\s*$/;
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Pulls Mermaid's `accTitle:` / `accDescr:` lines out of the source; they become the alt text. */
+function splitAccessibility(source: string) {
+  const accessibility: { accTitle?: string; accDescr?: string } = {};
+  const diagram = source
+    .split('\n')
+    .filter((line) => {
+      const match = line.match(ACCESSIBILITY_LINE);
+      if (match) accessibility[match[1] as 'accTitle' | 'accDescr'] = match[2];
+      return !match;
+    })
+    .join('\n');
+
+  return { diagram, ...accessibility };
+}
+
+/**
+ * Makes the renderer's SVG self-contained: colors come from variables it defines per
+ * color scheme, and the web-font import (which an <img> would never load) is dropped.
+ */
+function themeSvg(svg: string) {
+  const palette = `
+  svg { --diagram-bg: ${LIGHT.bg}; --diagram-fg: ${LIGHT.fg}; }
+  @media (prefers-color-scheme: dark) {
+    svg { --diagram-bg: ${DARK.bg}; --diagram-fg: ${DARK.fg}; }
+  }`;
+
+  return svg
+    .replace(/^\s*@import url\([^)]*\);\s*$/m, '')
+    .replace('<style>', `<style>${palette}`);
+}
+
+const DIAGRAM_KINDS: Record<string, string> = {
+  flowchart: 'Flowchart',
+  graph: 'Flowchart',
+  sequenceDiagram: 'Sequence diagram',
+  classDiagram: 'Class diagram',
+  stateDiagram: 'State diagram',
+  'stateDiagram-v2': 'State diagram',
+  erDiagram: 'Entity relationship diagram',
+};
+
+// `id["label"]`, `id[(label)]`, `id(label)`, `id{label}` and friends in flowchart syntax.
+const NODE_PATTERN = /\b(\w+(?:-\w+)*)\s*(?:\[\(?|\(\(?|\{)"?([^"\]\)}]+?)"?(?:\)?\]|\)\)?|\})/g;
+const EDGE_PATTERN = /\b(\w+(?:-\w+)*)(?:\s*(?:\[[^\]]*\]|\([^)]*\)|\{[^}]*\}))?\s*-[-.=]*>>?[+-]?\s*(?:\|([^|]+)\|\s*)?(\w+(?:-\w+)*)/g;
+
+/**
+ * A fallback description read off the diagram itself ("Flowchart: :app → :feature:home, …")
+ * for diagrams without accTitle/accDescr. Better than "Diagram", but no substitute for one.
+ */
+export function describeDiagram(diagram: string) {
+  const [header = '', ...lines] = diagram.trim().split('\n');
+  const kind = DIAGRAM_KINDS[header.trim().split(/\s+/)[0]] ?? 'Diagram';
+  const body = lines.join('\n');
+
+  const labels = new Map<string, string>();
+  for (const [, id, label] of body.matchAll(NODE_PATTERN)) {
+    if (!labels.has(id)) labels.set(id, label.trim());
+  }
+
+  const edges = [...body.matchAll(EDGE_PATTERN)].map(([, from, label, to]) => {
+    const arrow = label ? ` → (${label.trim()}) → ` : ' → ';
+    return `${labels.get(from) ?? from}${arrow}${labels.get(to) ?? to}`;
+  });
+  const parts = edges.length > 0 ? edges : [...labels.values()];
+
+  return parts.length > 0 ? `${kind}: ${parts.join(', ')}` : kind;
+}
+
+/** Mermaid blocks in a note that declare neither accTitle nor accDescr, for check:content. */
+export function findUndescribedDiagrams(markdown: string) {
+  const blocks = [...markdown.matchAll(/^(`{3,}|~{3,})mermaid[^\n]*\n([\s\S]*?)^\1[ \t]*$/gm)];
+  return blocks
+    .map(([block, , source]) => ({ line: markdown.slice(0, markdown.indexOf(block)).split('\n').length, source }))
+    .filter(({ source }) => {
+      const { accTitle, accDescr } = splitAccessibility(source);
+      return !accTitle && !accDescr;
+    })
+    .map(({ line }) => line);
+}
+
+function renderFigure(svg: string, alt: string) {
+  const width = svg.match(/<svg[^>]*\swidth="([\d.]+)"/)?.[1];
+  const height = svg.match(/<svg[^>]*\sheight="([\d.]+)"/)?.[1];
+  const size = width && height ? ` width="${Math.round(Number(width))}" height="${Math.round(Number(height))}"` : '';
+  const src = `data:image/svg+xml;base64,${Buffer.from(themeSvg(svg)).toString('base64')}`;
+
+  return `<figure class="mermaid-diagram"><img src="${src}" alt="${escapeAttribute(alt)}"${size} loading="lazy" decoding="async" /></figure>`;
+}
+
+/**
+ * Renders ```mermaid blocks to static SVG at build time; no diagram code ships to
+ * the browser. The alt text is `accTitle: accDescr`; diagrams without them get one
+ * generated from their nodes and edges (and a warning; check:content flags them too).
+ * A block that fails to parse stays a regular code block and logs a warning.
+ */
+export function remarkMermaid() {
+  return async (tree: Root, file: VFile) => {
+    const blocks: { node: Code; index: number; parent: { children: Root['children'] } }[] = [];
+
+    visit(tree, 'code', (node, index, parent) => {
+      if (node.lang === 'mermaid' && parent && index !== undefined) {
+        blocks.push({ node, index, parent: parent as { children: Root['children'] } });
+      }
+    });
+    if (blocks.length === 0) return;
+
+    // ESM-only package; a dynamic import keeps the CommonJS content scripts working.
+    const { renderMermaidSVG } = await import('beautiful-mermaid');
+
+    for (const { node, index, parent } of blocks) {
+      const { diagram, accTitle, accDescr } = splitAccessibility(node.value);
+
+      let svg: string;
+      try {
+        svg = renderMermaidSVG(diagram, {
+          bg: 'var(--diagram-bg)',
+          fg: 'var(--diagram-fg)',
+          font: 'Inter',
+          transparent: true,
+        });
+      } catch (error) {
+        console.warn(`⚠ ${file.path ?? 'markdown'}: Mermaid diagram could not be rendered, showing its source instead: ${(error as Error).message}`);
+        continue;
+      }
+
+      if (!accTitle && !accDescr) {
+        console.warn(`⚠ ${file.path ?? 'markdown'}: Mermaid diagram without accTitle/accDescr; its alt text is generated from the diagram.`);
+      }
+      const alt = [accTitle, accDescr].filter(Boolean).join(': ') || describeDiagram(diagram);
+      const figure: Html = { type: 'html', value: renderFigure(svg, alt) };
+      parent.children[index] = figure;
+    }
+  };
+}
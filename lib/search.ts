@@ -0,0 +1,144 @@
+export type SearchDocument = {
+  id: string;
+  title: string;
+  description: string;
+  date: string;
+  tags: string[];
+  headings: string[];
+  code: string[];
+  body: string;
+};
+
+export type SearchResult = {
+  document: SearchDocument;
+  score: number;
+  snippet: string;
+};
+
+export const SEARCH_INDEX_PATH = "/android/search-index.json";
+
+// Matches in short, high-signal fields outrank matches buried in the body.
+const FIELD_WEIGHTS = {
+  title: 10,
+  tags: 6,
+  headings: 5,
+  code: 4,
+  description: 3,
+  body: 1,
+} as const;
+
+const SNIPPET_RADIUS = 80;
+
+export function tokenize(value: string) {
+  return value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function scoreField(text: string, terms: string[], weight: number) {
+  const words = tokenize(text);
+  let score = 0;
+
+  for (const term of terms) {
+    let termScore = 0;
+    for (const word of words) {
+      if (word === term) {
+        termScore += 1;
+      } else if (word.startsWith(term)) {
+        termScore += 0.5;
+      }
+    }
+    // Diminishing returns so a long body cannot drown out a title match.
+    score += Math.log2(1 + termScore) * weight;
+  }
+
+  return score;
+}
+
+function matchesAllTerms(document: SearchDocument, terms: string[]) {
+  const haystack = [
+    document.title,
+    document.description,
+    document.tags.join(" "),
+    document.headings.join(" "),
+    document.code.join(" "),
+    document.body,
+  ].join(" ");
+  const words = tokenize(haystack);
+
+  return terms.every((term) => words.some((word) => word.startsWith(term)));
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function buildSnippet(document: SearchDocument, terms: string[]) {
+  const source = document.body || document.description;
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "i");
+  const match = pattern.exec(source);
+
+  if (!match) {
+    return document.description;
+  }
+
+  let start = Math.max(0, match.index - SNIPPET_RADIUS);
+  let end = Math.min(source.length, match.index + match[0].length + SNIPPET_RADIUS);
+
+  // Snap to word boundaries so snippets never start or end mid-word.
+  if (start > 0) {
+    const space = source.indexOf(" ", start);
+    if (space !== -1 && space < match.index) start = space + 1;
+  }
+  if (end < source.length) {
+    const space = source.lastIndexOf(" ", end);
+    if (space > match.index + match[0].length) end = space;
+  }
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < source.length ? "…" : "";
+
+  return `${prefix}${source.slice(start, end).trim()}${suffix}`;
+}
+
+/**
+ * Ranks documents for a free-text query. Every term has to appear somewhere in
+ * the document (prefix match), then fields are scored by weight.
+ */
+export function searchDocuments(documents: SearchDocument[], query: string, limit = 10): SearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  return documents
+    .filter((document) => matchesAllTerms(document, terms))
+    .map((document) => ({
+      document,
+      score:
+        scoreField(document.title, terms, FIELD_WEIGHTS.title) +
+        scoreField(document.tags.join(" "), terms, FIELD_WEIGHTS.tags) +
+        scoreField(document.headings.join(" "), terms, FIELD_WEIGHTS.headings) +
+        scoreField(document.code.join(" "), terms, FIELD_WEIGHTS.code) +
+        scoreField(document.description, terms, FIELD_WEIGHTS.description) +
+        scoreField(document.body, terms, FIELD_WEIGHTS.body),
+      snippet: buildSnippet(document, terms),
+    }))
+    .sort((a, b) => b.score - a.score || b.document.date.localeCompare(a.document.date))
+    .slice(0, limit);
+}
+
+export type HighlightPart = {
+  text: string;
+  match: boolean;
+};
+
+/** Splits text into plain and matching parts so the UI can wrap matches in <mark>. */
+export function highlightTerms(text: string, query: string): HighlightPart[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
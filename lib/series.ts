@@ -0,0 +1,32 @@
+export type SeriesInfo = {
+  slug: string;
+  title: string;
+  description: string;
+  /** Total parts planned for the track, including ones not published yet. */
+  plannedParts?: number;
+};
+
+export const series: SeriesInfo[] = [
+  {
+    slug: "android-architecture",
+    title: "Android App Architecture Track",
+    description:
+      "An ordered track from architecture basics to advanced topics: layers, UI state, domain and data layers, MVVM, modularization, offline-first sync, navigation, security, and refactoring legacy apps.",
+    plannedParts: 12,
+  },
+];
+
+/** Looks up a series by the slug used in post frontmatter (`series: "android-architecture"`). */
+export function getSeriesInfo(slug: string): SeriesInfo {
+  return (
+    series.find((item) => item.slug === slug) ?? {
+      slug,
+      title: slug
+        .split("-")
+        .filter(Boolean)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(" "),
+      description: "An ordered series of Android engineering notes.",
+    }
+  );
+}
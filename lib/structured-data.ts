@@ -0,0 +1,630 @@
+import { formatAppPlatforms, type AppInfo } from './apps';
+import type { AppDocument, AppDocumentOwner } from './app-documents';
+import { getPostsPagePath, type PostMeta, type SeriesData, type TagSummary } from './posts';
+import type { ProjectInfo } from './projects';
+import type { RelatedPost } from './related';
+
+const SITE_URL = 'https://davideagostini.com';
+const SCHEMA_CONTEXT = 'https://schema.org';
+
+// Schema.org node shapes for the JSON-LD this site emits. Required properties are
+// non-optional so a builder that forgets one fails the type-check; the runtime
+// rules in REQUIRED_PROPERTIES cover what types can't (empty strings, bad URLs).
+
+export type PersonNode = {
+  '@type': 'Person';
+  name: string;
+  url?: string;
+  sameAs?: string[];
+  jobTitle?: string;
+  worksFor?: OrganizationNode[];
+  knowsAbout?: string[];
+  image?: string;
+  description?: string;
+};
+
+export type OrganizationNode = {
+  '@type': 'Organization';
+  name: string;
+};
+
+export type WebSiteNode = {
+  '@type': 'WebSite';
+  name: string;
+  url: string;
+  description?: string;
+  publisher?: PersonNode;
+};
+
+export type WebPageNode = {
+  '@type': 'WebPage';
+  '@id'?: string;
+  name?: string;
+  url?: string;
+  dateModified?: string;
+  about?: SoftwareApplicationNode;
+  breadcrumb?: BreadcrumbListNode;
+  relatedLink?: string[];
+};
+
+export type ListItemNode = {
+  '@type': 'ListItem';
+  position: number;
+  name: string;
+  url?: string;
+  item?: string | SoftwareApplicationNode;
+};
+
+export type ItemListNode = {
+  '@type': 'ItemList';
+  name?: string;
+  numberOfItems?: number;
+  itemListElement: ListItemNode[];
+};
+
+export type BreadcrumbListNode = {
+  '@type': 'BreadcrumbList';
+  itemListElement: ListItemNode[];
+};
+
+export type CollectionPageNode = {
+  '@type': 'CollectionPage';
+  name: string;
+  url: string;
+  description?: string;
+  about?: string;
+  author?: PersonNode;
+  isPartOf?: CollectionPageNode;
+  mainEntity?: ItemListNode;
+};
+
+export type TechArticleNode = {
+  '@type': 'TechArticle';
+  headline: string;
+  datePublished: string;
+  url?: string;
+  description?: string;
+  author?: PersonNode;
+  dateModified?: string;
+  keywords?: string;
+  wordCount?: number;
+  timeRequired?: string;
+  position?: number;
+  mainEntityOfPage?: WebPageNode;
+  isPartOf?: CreativeWorkSeriesNode;
+};
+
+export type CreativeWorkSeriesNode = {
+  '@type': 'CreativeWorkSeries';
+  name: string;
+  url: string;
+  description?: string;
+  author?: PersonNode;
+  hasPart?: TechArticleNode[];
+};
+
+export type OfferNode = {
+  '@type': 'Offer';
+  price: string;
+  priceCurrency: string;
+};
+
+export type SoftwareApplicationNode = {
+  '@type': 'SoftwareApplication';
+  name: string;
+  applicationCategory: string;
+  operatingSystem: string;
+  url: string;
+  headline?: string;
+  description?: string;
+  isAccessibleForFree?: boolean;
+  featureList?: string[];
+  offers?: OfferNode;
+  author?: PersonNode;
+  image?: string;
+  sameAs?: string[];
+};
+
+export type QuestionNode = {
+  '@type': 'Question';
+  name: string;
+  acceptedAnswer: AnswerNode;
+};
+
+export type AnswerNode = {
+  '@type': 'Answer';
+  text: string;
+};
+
+export type FaqPageNode = {
+  '@type': 'FAQPage';
+  mainEntity: QuestionNode[];
+};
+
+export type StructuredDataNode =
+  | PersonNode
+  | WebSiteNode
+  | WebPageNode
+  | ItemListNode
+  | BreadcrumbListNode
+  | CollectionPageNode
+  | TechArticleNode
+  | CreativeWorkSeriesNode
+  | SoftwareApplicationNode
+  | FaqPageNode;
+
+export type StructuredData<T extends StructuredDataNode = StructuredDataNode> = T & {
+  '@context': typeof SCHEMA_CONTEXT;
+};
+
+function withContext<T extends StructuredDataNode>(node: T): StructuredData<T> {
+  return { '@context': SCHEMA_CONTEXT, ...node };
+}
+
+function absoluteUrl(pathname: string) {
+  return `${SITE_URL}${pathname}`;
+}
+
+const author: PersonNode = {
+  '@type': 'Person',
+  name: 'Davide Agostini',
+  url: SITE_URL,
+};
+
+const notesCollection: CollectionPageNode = {
+  '@type': 'CollectionPage',
+  name: 'Android Engineering Notes',
+  url: absoluteUrl('/android'),
+};
+
+function listItems(entries: { name: string; url: string }[], firstPosition = 1): ListItemNode[] {
+  return entries.map((entry, index) => ({
+    '@type': 'ListItem',
+    position: firstPosition + index,
+    url: entry.url,
+    name: entry.name,
+  }));
+}
+
+function breadcrumbList(entries: { name: string; url: string }[]): BreadcrumbListNode {
+  return {
+    '@type': 'BreadcrumbList',
+    itemListElement: entries.map((entry, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: entry.name,
+      item: entry.url,
+    })),
+  };
+}
+
+/**
+ * Schema.org wants a numeric price. Only free apps have one the catalog knows;
+ * subscriptions and paid apps are described without an Offer rather than with a wrong one.
+ */
+function appOffer(app: AppInfo): OfferNode | undefined {
+  if (app.price.toLowerCase() !== 'free') return undefined;
+  return { '@type': 'Offer', price: '0', priceCurrency: 'EUR' };
+}
+
+function softwareApplication(app: AppInfo): SoftwareApplicationNode {
+  return {
+    '@type': 'SoftwareApplication',
+    name: app.name,
+    description: app.description,
+    applicationCategory: app.category,
+    operatingSystem: app.platform,
+    isAccessibleForFree: app.price.toLowerCase() === 'free',
+    url: absoluteUrl(`/apps/${app.slug}`),
+  };
+}
+
+/** Person, WebSite and selected work, emitted once from the root layout. */
+export function siteStructuredData(featuredProjects: Pick<ProjectInfo, 'title' | 'href'>[]) {
+  return [
+    withContext<PersonNode>({
+      '@type': 'Person',
+      name: 'Davide Agostini',
+      url: SITE_URL,
+      sameAs: [
+        'https://twitter.com/davideagostini',
+        'https://www.linkedin.com/in/davideagostini/',
+        'https://github.com/davideagostini',
+        'https://davideagostini.medium.com/',
+      ],
+      jobTitle: 'Senior Android Developer',
+      worksFor: [
+        {
+          '@type': 'Organization',
+          name: 'Synapses',
+        },
+      ],
+      knowsAbout: [
+        'Android Security',
+        'StrongBox Keymaster',
+        'Trusted Execution Environment (TEE)',
+        'Jetpack Compose Internals',
+        'Kotlin Multiplatform',
+        'Compose Multiplatform',
+        'System Design',
+        'AI Search Visibility',
+        'Personal Finance Tools',
+        'Football',
+      ],
+      image: absoluteUrl('/assets/profile.jpg'),
+      description:
+        'Senior Android Developer focused on Kotlin, Kotlin Multiplatform, and modern UIs with Compose Multiplatform.',
+    }),
+    withContext<WebSiteNode>({
+      '@type': 'WebSite',
+      name: 'Davide Agostini',
+      url: SITE_URL,
+      description: 'Portfolio and Android engineering notes by Davide Agostini, Senior Android Developer.',
+      publisher: {
+        '@type': 'Person',
+        name: 'Davide Agostini',
+      },
+    }),
+    withContext<ItemListNode>({
+      '@type': 'ItemList',
+      name: 'Selected work by Davide Agostini',
+      itemListElement: listItems(
+        featuredProjects.map((project) => ({
+          // Referral parameters are for analytics, not identity.
+          url: project.href.split('?')[0],
+          name: project.title,
+        })),
+      ),
+    }),
+  ];
+}
+
+type NoteCollectionOptions = {
+  name: string;
+  pathname: string;
+  posts: Pick<PostMeta, 'id' | 'title'>[];
+  description?: string;
+  about?: string;
+  /** Posts before this page, so positions stay global across /android/page/[n]. */
+  offset?: number;
+  totalPosts?: number;
+};
+
+function noteCollectionStructuredData({
+  name,
+  pathname,
+  posts,
+  description,
+  about,
+  offset = 0,
+  totalPosts,
+}: NoteCollectionOptions) {
+  return withContext<CollectionPageNode>({
+    '@type': 'CollectionPage',
+    name,
+    ...(description && { description }),
+    url: absoluteUrl(pathname),
+    ...(about && { about }),
+    ...(pathname !== '/android' && { isPartOf: notesCollection }),
+    author,
+    mainEntity: {
+      '@type': 'ItemList',
+      ...(totalPosts !== undefined && { numberOfItems: totalPosts }),
+      itemListElement: listItems(
+        posts.map((post) => ({ name: post.title, url: absoluteUrl(`/android/${post.id}`) })),
+        offset + 1,
+      ),
+    },
+  });
+}
+
+type NotesPageOptions = {
+  page: number;
+  posts: Pick<PostMeta, 'id' | 'title'>[];
+  offset: number;
+  totalPosts: number;
+};
+
+/** The /android index and its paginated pages, from the result of getPaginatedPosts. */
+export function notesPageStructuredData({ page, posts, offset, totalPosts }: NotesPageOptions) {
+  return noteCollectionStructuredData({
+    name: page === 1 ? 'Android Engineering Notes' : `Android Engineering Notes – Page ${page}`,
+    ...(page === 1 && {
+      description: 'A collection of technical notes on Android development, security, and performance.',
+    }),
+    pathname: getPostsPagePath(page),
+    posts,
+    offset,
+    totalPosts,
+  });
+}
+
+type TagStructuredDataOptions = {
+  tag: Pick<TagSummary, 'slug' | 'name' | 'description'>;
+  posts: Pick<PostMeta, 'id' | 'title'>[];
+};
+
+/** A tag page, from the result of getTagData. */
+export function tagStructuredData({ tag, posts }: TagStructuredDataOptions) {
+  return noteCollectionStructuredData({
+    name: `${tag.name} - Android Engineering Notes`,
+    description: tag.description,
+    pathname: `/android/tags/${tag.slug}`,
+    about: tag.name,
+    posts,
+  });
+}
+
+export function seriesStructuredData(series: SeriesData) {
+  return withContext<CreativeWorkSeriesNode>({
+    '@type': 'CreativeWorkSeries',
+    name: series.title,
+    description: series.description,
+    url: absoluteUrl(`/android/series/${series.slug}`),
+    author,
+    hasPart: series.parts.map((part) => ({
+      '@type': 'TechArticle',
+      headline: part.title,
+      url: absoluteUrl(`/android/${part.id}`),
+      position: part.order,
+      datePublished: part.date,
+    })),
+  });
+}
+
+type PostStructuredDataOptions = {
+  post: Pick<PostMeta, 'id' | 'title' | 'description' | 'date' | 'updated' | 'tags' | 'readingStats'>;
+  relatedPosts: Pick<RelatedPost, 'id'>[];
+  seriesNavigation: { series: Pick<SeriesData, 'slug' | 'title'>; part: { order: number } } | null;
+};
+
+export function postStructuredData({ post, relatedPosts, seriesNavigation }: PostStructuredDataOptions) {
+  return withContext<TechArticleNode>({
+    '@type': 'TechArticle',
+    headline: post.title,
+    description: post.description,
+    author,
+    datePublished: post.date,
+    dateModified: post.updated,
+    keywords: post.tags.join(', '),
+    wordCount: post.readingStats.wordCount,
+    timeRequired: `PT${post.readingStats.readingMinutes}M`,
+    mainEntityOfPage: {
+      '@type': 'WebPage',
+      '@id': absoluteUrl(`/android/${post.id}`),
+      relatedLink: relatedPosts.map((related) => absoluteUrl(`/android/${related.id}`)),
+    },
+    ...(seriesNavigation && {
+      position: seriesNavigation.part.order,
+      isPartOf: {
+        '@type': 'CreativeWorkSeries',
+        name: seriesNavigation.series.title,
+        url: absoluteUrl(`/android/series/${seriesNavigation.series.slug}`),
+      },
+    }),
+  });
+}
+
+export function appsCollectionStructuredData(apps: AppInfo[]) {
+  return withContext<CollectionPageNode>({
+    '@type': 'CollectionPage',
+    name: 'Apps by Davide Agostini',
+    description: `A collection of ${formatAppPlatforms(apps)} apps built by Davide Agostini.`,
+    url: absoluteUrl('/apps'),
+    author,
+    mainEntity: {
+      '@type': 'ItemList',
+      itemListElement: apps.map((app, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        url: absoluteUrl(`/apps/${app.slug}`),
+        name: app.name,
+        item: softwareApplication(app),
+      })),
+    },
+  });
+}
+
+/** Breadcrumb, the app itself and its FAQ when it has one. */
+export function appStructuredData(app: AppInfo) {
+  const pageUrl = absoluteUrl(`/apps/${app.slug}`);
+  const offer = appOffer(app);
+
+  return [
+    withContext(breadcrumbList([
+      { name: 'Apps', url: absoluteUrl('/apps') },
+      { name: app.name, url: pageUrl },
+    ])),
+    withContext<SoftwareApplicationNode>({
+      ...softwareApplication(app),
+      headline: app.tagline,
+      featureList: app.highlights,
+      ...(offer && { offers: offer }),
+      author,
+      image: absoluteUrl(app.icon),
+      sameAs: app.links.map((link) => link.href),
+    }),
+    ...(app.faq.length > 0
+      ? [
+          withContext<FaqPageNode>({
+            '@type': 'FAQPage',
+            mainEntity: app.faq.map((item) => ({
+              '@type': 'Question',
+              name: item.question,
+              acceptedAnswer: {
+                '@type': 'Answer',
+                text: item.answer,
+              },
+            })),
+          }),
+        ]
+      : []),
+  ];
+}
+
+export function appDocumentStructuredData(owner: AppDocumentOwner, document: Pick<AppDocument, 'title' | 'label' | 'href' | 'lastUpdated'>) {
+  const pageUrl = absoluteUrl(document.href);
+  const { app } = owner;
+
+  return withContext<WebPageNode>({
+    '@type': 'WebPage',
+    name: document.title,
+    url: pageUrl,
+    ...(document.lastUpdated && { dateModified: document.lastUpdated }),
+    // Apps that only have documents so far have no page of their own to point to.
+    ...(app && { about: softwareApplication(app) }),
+    breadcrumb: breadcrumbList([
+      { name: 'Apps', url: absoluteUrl('/apps') },
+      ...(app ? [{ name: app.name, url: absoluteUrl(`/apps/${app.slug}`) }] : []),
+      { name: document.label, url: pageUrl },
+    ]),
+  });
+}
+
+/** Serialises JSON-LD for a `<script>` tag; `<` is escaped so content can't close the tag early. */
+export function serializeStructuredData(data: StructuredData | StructuredData[]) {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+export type StructuredDataIssue = {
+  path: string;
+  message: string;
+};
+
+// Properties each type must carry with a non-empty value. An array entry means "one of".
+const REQUIRED_PROPERTIES: Record<string, (string | string[])[]> = {
+  Person: ['name'],
+  Organization: ['name'],
+  WebSite: ['name', 'url'],
+  WebPage: [['@id', 'url']],
+  ItemList: ['itemListElement'],
+  BreadcrumbList: ['itemListElement'],
+  ListItem: ['position', 'name', ['item', 'url']],
+  CollectionPage: ['name', 'url'],
+  TechArticle: ['headline', 'datePublished'],
+  CreativeWorkSeries: ['name', 'url'],
+  SoftwareApplication: ['name', 'applicationCategory', 'operatingSystem', 'url'],
+  Offer: ['price', 'priceCurrency'],
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+};
+
+const URL_PROPERTIES = new Set(['@id', 'url', 'item', 'image', 'sameAs', 'relatedLink']);
+const DATE_PROPERTIES = new Set(['datePublished', 'dateModified']);
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPresent(value: unknown) {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function isAbsoluteUrl(value: string) {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function validatePositions(items: unknown[], path: string, issues: StructuredDataIssue[], mustStartAtOne: boolean) {
+  const positions = items.map((item) => (isRecord(item) ? item.position : undefined));
+  if (!positions.every((position) => Number.isInteger(position))) return;
+
+  const numbers = positions as number[];
+  if (mustStartAtOne && numbers[0] !== 1) {
+    issues.push({ path, message: `positions must start at 1 (got ${numbers[0]})` });
+  }
+  numbers.forEach((position, index) => {
+    if (index > 0 && position !== numbers[index - 1] + 1) {
+      issues.push({ path: `${path}[${index}].position`, message: `must follow ${numbers[index - 1]} (got ${position})` });
+    }
+  });
+}
+
+function validateNode(node: Record<string, unknown>, path: string, issues: StructuredDataIssue[]) {
+  const type = node['@type'];
+
+  if (typeof type === 'string') {
+    const required = REQUIRED_PROPERTIES[type];
+    if (!required) {
+      issues.push({ path, message: `@type ${type} has no validation rules; add them to REQUIRED_PROPERTIES` });
+    }
+
+    for (const rule of required ?? []) {
+      const alternatives = Array.isArray(rule) ? rule : [rule];
+      if (!alternatives.some((property) => isPresent(node[property]))) {
+        issues.push({ path, message: `${type} needs ${alternatives.join(' or ')}` });
+      }
+    }
+
+    if (type === 'Offer' && typeof node.price === 'string' && !/^\d+(?:\.\d+)?$/.test(node.price)) {
+      issues.push({ path: `${path}.price`, message: `must be numeric (got ${JSON.stringify(node.price)})` });
+    }
+    if (type === 'Offer' && typeof node.priceCurrency === 'string' && !/^[A-Z]{3}$/.test(node.priceCurrency)) {
+      issues.push({ path: `${path}.priceCurrency`, message: `must be an ISO 4217 code (got ${JSON.stringify(node.priceCurrency)})` });
+    }
+    if ((type === 'ItemList' || type === 'BreadcrumbList') && Array.isArray(node.itemListElement)) {
+      validatePositions(node.itemListElement, `${path}.itemListElement`, issues, type === 'BreadcrumbList');
+    }
+  } else if (path.split('.').length > 1) {
+    issues.push({ path, message: 'nested objects need an @type' });
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    const childPath = `${path}.${key}`;
+
+    if (URL_PROPERTIES.has(key)) {
+      const urls = Array.isArray(value) ? value : [value];
+      urls.forEach((url, index) => {
+        if (typeof url === 'string' && !isAbsoluteUrl(url)) {
+          issues.push({ path: Array.isArray(value) ? `${childPath}[${index}]` : childPath, message: `must be an absolute URL (got ${JSON.stringify(url)})` });
+        }
+      });
+    }
+    if (DATE_PROPERTIES.has(key) && (typeof value !== 'string' || !DATE_PATTERN.test(value))) {
+      issues.push({ path: childPath, message: `must be an ISO 8601 date (got ${JSON.stringify(value)})` });
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (isRecord(item)) validateNode(item, `${childPath}[${index}]`, issues);
+      });
+    } else if (isRecord(value)) {
+      validateNode(value, childPath, issues);
+    }
+  }
+}
+
+/**
+ * Checks a JSON-LD payload (one node or a list of top-level nodes) against the
+ * required properties of every schema.org type used on the site.
+ */
+export function validateStructuredData(data: unknown): StructuredDataIssue[] {
+  const issues: StructuredDataIssue[] = [];
+  const nodes = Array.isArray(data) ? data : [data];
+
+  nodes.forEach((node, index) => {
+    const path = Array.isArray(data) ? `$[${index}]` : '$';
+    if (!isRecord(node)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (node['@context'] !== SCHEMA_CONTEXT) {
+      issues.push({ path, message: `@context must be ${SCHEMA_CONTEXT}` });
+    }
+    if (typeof node['@type'] !== 'string') {
+      issues.push({ path, message: 'needs an @type' });
+    }
+    validateNode(node, path, issues);
+  });
+
+  return issues;
+}
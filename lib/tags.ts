@@ -0,0 +1,216 @@
+export type TagInfo = {
+  slug: string;
+  name: string;
+  description: string;
+  aliases?: string[];
+};
+
+export const tags: TagInfo[] = [
+  {
+    slug: "android",
+    name: "Android",
+    description: "Notes on building production-grade Android apps, from UI and state to data, security and release.",
+  },
+  {
+    slug: "jetpack-compose",
+    name: "Jetpack Compose",
+    description: "Compose internals, state, recomposition, and UI patterns for modern Android screens.",
+    aliases: ["compose"],
+  },
+  {
+    slug: "kotlin",
+    name: "Kotlin",
+    description: "Kotlin language features and idioms used in real Android codebases.",
+  },
+  {
+    slug: "performance",
+    name: "Performance",
+    description: "Startup, scrolling, recomposition, and memory performance on Android.",
+  },
+  {
+    slug: "lazycolumn",
+    name: "LazyColumn",
+    description: "Keys, stability, and recomposition in Compose lazy lists.",
+  },
+  {
+    slug: "architecture",
+    name: "Architecture",
+    description: "Layers, boundaries, and data flow for Android apps that scale.",
+  },
+  {
+    slug: "clean-architecture",
+    name: "Clean Architecture",
+    description: "Separating UI, domain, and data layers with clear dependency rules.",
+  },
+  {
+    slug: "state-management",
+    name: "State Management",
+    description: "Where UI state lives in Compose and how it survives recomposition and lifecycle.",
+    aliases: ["state"],
+  },
+  {
+    slug: "viewmodel",
+    name: "ViewModel",
+    description: "ViewModel contracts, lifecycle, and when you actually need one.",
+  },
+  {
+    slug: "mvvm",
+    name: "MVVM",
+    description: "Model-View-ViewModel screens with clear UI contracts and side effects.",
+  },
+  {
+    slug: "udf",
+    name: "UDF",
+    description: "Unidirectional data flow in Compose: state flows down, events flow up, and screens stay predictable.",
+    aliases: ["unidirectional-data-flow"],
+  },
+  {
+    slug: "domain-layer",
+    name: "Domain Layer",
+    description: "Use cases and business rules kept independent from the framework.",
+  },
+  {
+    slug: "repository-pattern",
+    name: "Repository Pattern",
+    description: "Repositories as the single source of truth for app data.",
+  },
+  {
+    slug: "modularization",
+    name: "Modularization",
+    description: "Feature and core modules, Gradle strategy, and build boundaries.",
+  },
+  {
+    slug: "navigation",
+    name: "Navigation",
+    description: "Navigation Compose, nested graphs, and type-safe routes.",
+  },
+  {
+    slug: "security",
+    name: "Security",
+    description: "Keystore, biometrics, encryption, and secret boundaries on Android.",
+  },
+  {
+    slug: "biometrics",
+    name: "Biometrics",
+    description: "BiometricPrompt, authentication-bound keys, and fallback flows for sensitive actions.",
+  },
+  {
+    slug: "keystore",
+    name: "Keystore",
+    description: "Android Keystore keys, hardware-backed encryption, and what they protect against.",
+  },
+  {
+    slug: "room",
+    name: "Room",
+    description: "Room database entities, DAOs, migrations, and encrypted storage.",
+  },
+  {
+    slug: "testing",
+    name: "Testing",
+    description: "Unit, integration, and Compose UI tests for Android apps.",
+  },
+  {
+    slug: "gde",
+    name: "GDE",
+    description: "Notes written as part of the Google Developer Expert track.",
+  },
+  {
+    slug: "ai",
+    name: "AI",
+    description: "AI agents, on-device models, and how they change Android apps.",
+  },
+  {
+    slug: "app-functions",
+    name: "App Functions",
+    description: "Exposing Android app capabilities to AI agents with App Functions.",
+    aliases: ["appfunctions"],
+  },
+  {
+    slug: "gemini",
+    name: "Gemini",
+    description: "Working with Gemini models from Android apps: prompts, on-device and cloud APIs, and guardrails.",
+  },
+  {
+    slug: "offline-first",
+    name: "Offline-First",
+    description: "Local-first data flow with background sync and conflict resolution.",
+  },
+  {
+    slug: "gradle",
+    name: "Gradle",
+    description: "Gradle build logic, convention plugins, and module setup.",
+  },
+  {
+    slug: "ksp",
+    name: "KSP",
+    description: "Kotlin Symbol Processing (KSP) and the code generation behind Room, Hilt and Moshi.",
+  },
+  {
+    slug: "adb",
+    name: "ADB",
+    description: "Android Debug Bridge commands for testing and debugging.",
+  },
+];
+
+/**
+ * Lowercased, dash-separated form used to match raw frontmatter tags
+ * against slugs and aliases ("Jetpack Compose" -> "jetpack-compose").
+ */
+export function slugifyTag(value: string) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+const tagsByKey = new Map<string, TagInfo>();
+for (const tag of tags) {
+  tagsByKey.set(tag.slug, tag);
+  for (const alias of tag.aliases ?? []) {
+    tagsByKey.set(slugifyTag(alias), tag);
+  }
+}
+
+/**
+ * Resolves a raw frontmatter tag to its canonical registry entry. Tags that are
+ * not registered keep their original spelling and get a generated slug, so new
+ * topics still get a page without touching the registry.
+ */
+export function normalizeTag(raw: string): TagInfo {
+  const key = slugifyTag(raw);
+  const known = tagsByKey.get(key);
+  if (known) return known;
+
+  const trimmed = raw.trim();
+  const name = trimmed === trimmed.toLowerCase() ? toTitleCase(trimmed) : trimmed;
+  return {
+    slug: key,
+    name,
+    // Long enough for a meta description; register the tag for a better one.
+    description: `Android engineering notes on ${name}, with Kotlin code samples and trade-offs from production apps.`,
+  };
+}
+
+/** Normalizes and de-duplicates a post's tags, keeping their original order. */
+export function normalizeTags(raw: string[]) {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const value of raw) {
+    const tag = normalizeTag(value);
+    if (!tag.slug || seen.has(tag.slug)) continue;
+    seen.add(tag.slug);
+    result.push(tag.name);
+  }
+
+  return result;
+}
+
+function toTitleCase(value: string) {
+  return value
+    .split(/[-\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
@@ -3,6 +3,38 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  async redirects() {
+    return [
+      // The rewrite targets below are implementation details; keep them from serving a
+      // second copy of every index page and note source.
+      {
+        source: "/android/paged/:n",
+        destination: "/android/page/:n",
+        permanent: true,
+      },
+      {
+        source: "/android/markdown/:slug",
+        destination: "/android/:slug.md",
+        permanent: true,
+      },
+    ];
+  },
+  async rewrites() {
+    return [
+      // A route segment named "page" collides with Next's own page entries, so the
+      // paginated index lives in app/android/paged and is served from /android/page/n.
+      {
+        source: "/android/page/:n",
+        destination: "/android/paged/:n",
+      },
+      // Dynamic segments can't carry a file extension, so the markdown source of a
+      // note is a route handler in app/android/markdown.
+      {
+        source: "/android/:slug.md",
+        destination: "/android/markdown/:slug",
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,65 @@
+// Validates post frontmatter, lints content/android and checks the app/project catalog
+// without running a full `next build`.
+// Usage: npm run check:content
+
+import fs from "fs";
+import { loadAllPosts, summarizeTags } from "../lib/posts";
+import { DESCRIPTION_MAX_LENGTH, DESCRIPTION_MIN_LENGTH, formatValidationReport } from "../lib/post-schema";
+import { formatLintIssues } from "../lib/content-lint";
+import { formatCatalogReport, loadApps, loadProjects } from "../lib/catalog";
+import { findUndescribedDiagrams } from "../lib/remark-mermaid";
+
+const catalog = loadApps();
+const projectCatalog = loadProjects();
+const catalogFailures = [...catalog.failures, ...projectCatalog.failures];
+
+if (catalogFailures.length > 0) {
+  console.error(`❌ ${formatCatalogReport(catalogFailures)}`);
+  process.exit(1);
+}
+
+const { posts, failures, lintIssues } = loadAllPosts();
+
+if (failures.length > 0) {
+  console.error(`❌ ${formatValidationReport(failures)}`);
+  process.exit(1);
+}
+
+const errors = lintIssues.filter((issue) => issue.severity === "error");
+const warnings = lintIssues.filter((issue) => issue.severity === "warning");
+
+if (warnings.length > 0) {
+  console.warn(`⚠ ${warnings.length} content warning(s):\n${formatLintIssues(warnings)}\n`);
+}
+
+if (errors.length > 0) {
+  console.error(`❌ ${errors.length} content error(s):\n${formatLintIssues(errors)}`);
+  process.exit(1);
+}
+
+// A diagram's alt text is its accTitle/accDescr; without them it is generated from the graph.
+const undescribedDiagrams = posts.flatMap((post) => {
+  const file = `content/android/${post.id}.md`;
+  return findUndescribedDiagrams(fs.readFileSync(file, "utf8")).map((line) => `  - ${file}:${line}`);
+});
+
+if (undescribedDiagrams.length > 0) {
+  console.warn(`⚠ Mermaid diagrams without accTitle/accDescr (their alt text is generated):\n${undescribedDiagrams.join("\n")}\n`);
+}
+
+// Tag pages use the registry description (lib/tags.ts) as their meta description.
+// Drafts and scheduled notes are included, so a new tag is checked before it goes live.
+const badTagDescriptions = summarizeTags(posts).filter(
+  (tag) => tag.description.length < DESCRIPTION_MIN_LENGTH || tag.description.length > DESCRIPTION_MAX_LENGTH,
+);
+
+if (badTagDescriptions.length > 0) {
+  console.error(
+    `❌ Tag descriptions must be ${DESCRIPTION_MIN_LENGTH}-${DESCRIPTION_MAX_LENGTH} characters (lib/tags.ts):\n${badTagDescriptions
+      .map((tag) => `  - ${tag.slug}: ${tag.description.length} characters`)
+      .join("\n")}`,
+  );
+  process.exit(1);
+}
+
+console.log(`✅ ${posts.length} posts, ${catalog.apps.length} apps and ${projectCatalog.projects.length} projects have valid frontmatter`);
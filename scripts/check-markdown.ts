@@ -0,0 +1,66 @@
+// Renders the markdown fixtures in scripts/fixtures through the notes pipeline and
+// checks GFM output (tables, task lists, strikethrough, autolinks, footnotes),
+// callout directives and HTML sanitization survive the project's own plugins,
+// without running a full `next build`.
+// Usage: npm run check:markdown
+
+import fs from "fs";
+import path from "path";
+import { renderMarkdown } from "../lib/markdown";
+
+type Expectation = { name: string; pattern: RegExp; absent?: boolean };
+
+const fixtures: Record<string, Expectation[]> = {
+  "gfm.md": [
+    { name: "table inside a scroll wrapper", pattern: /<div class="table-scroll" tabindex="0"><table>/ },
+    { name: "column alignment", pattern: /<th align="center">Old version<\/th>/ },
+    { name: "task list", pattern: /<ul class="contains-task-list">\s*<li class="task-list-item"><input type="checkbox" checked disabled>/ },
+    { name: "strikethrough", pattern: /<del><code>Modifier\.composed<\/code><\/del>/ },
+    { name: "autolinked URL", pattern: /<a href="https:\/\/developer\.android\.com\/jetpack\/androidx\/releases\/compose">/ },
+    { name: "autolinked www domain", pattern: /<a href="http:\/\/www\.example\.com">www\.example\.com<\/a>/ },
+    { name: "footnote reference", pattern: /<sup><a href="#user-content-fn-composed" id="user-content-fnref-composed" data-footnote-ref(="")? aria-describedby="user-content-footnote-label">1<\/a><\/sup>/ },
+    { name: "footnote label matches its references", pattern: /<h2 class="footnotes-title" id="user-content-footnote-label">Footnotes<\/h2>/ },
+    { name: "footnote back-reference", pattern: /<a href="#user-content-fnref-composed" data-footnote-backref="" aria-label="Back to reference 1" class="data-footnote-backref">/ },
+  ],
+  "directives.md": [
+    { name: "callout with custom title", pattern: /<aside class="callout callout-warning" data-callout="warning"><p class="callout-title">Mind the main thread<\/p>/ },
+    { name: "text directive restored with attributes", pattern: /Call :foo\{bar\} and :x\[label\]\{#id \.a k="v"\}, at 16:9\./ },
+    { name: "leaf directive restored with attributes", pattern: /<p>::leaf\{size="2"\}<\/p>/ },
+  ],
+  "unsafe-html.md": [
+    { name: "event handler removed", pattern: /onclick/, absent: true },
+    { name: "script removed", pattern: /<script|alert\('script'\)/, absent: true },
+    { name: "javascript: link removed", pattern: /javascript:/, absent: true },
+    { name: "unknown tag removed", pattern: /<marquee/, absent: true },
+    { name: "author ids prefixed against DOM clobbering", pattern: /<span id="user-content-config">/ },
+    { name: "unknown tag text kept", pattern: /unknown tag text/ },
+    { name: "approved iframe kept", pattern: /<iframe src="https:\/\/www\.youtube-nocookie\.com\/embed\/dQw4w9WgXcQ" title="Compose talk" allowfullscreen>/ },
+    { name: "unapproved iframe source removed", pattern: /evil\.example\.com/, absent: true },
+    { name: "callout kept", pattern: /<aside class="callout callout-tip" data-callout="tip"><p class="callout-title">Tip<\/p>/ },
+    { name: "code block meta kept", pattern: /<figcaption data-rehype-pretty-code-title="" data-language="kotlin" data-theme="github-light github-dark-dimmed">Kept\.kt<\/figcaption>/ },
+  ],
+};
+
+async function checkFixture(name: string, expectations: Expectation[]) {
+  const fixturePath = path.join("scripts", "fixtures", name);
+  const { html, toc } = await renderMarkdown(fs.readFileSync(fixturePath, "utf8"), fixturePath);
+  const failures = expectations
+    .filter(({ pattern, absent }) => pattern.test(html) === Boolean(absent))
+    .map(({ name }) => name);
+
+  if (toc.some((item) => item.text === "Footnotes")) {
+    failures.push("footnote label left out of the table of contents");
+  }
+
+  if (failures.length > 0) {
+    console.error(`❌ ${fixturePath} rendered unexpectedly:\n${failures.map((failure) => `  - ${failure}`).join("\n")}\n\n${html}`);
+  }
+  return failures.length === 0;
+}
+
+Promise.all(Object.entries(fixtures).map(([name, expectations]) => checkFixture(name, expectations))).then((results) => {
+  if (results.includes(false)) process.exit(1);
+
+  const total = Object.values(fixtures).flat().length;
+  console.log(`✅ ${Object.keys(fixtures).length} markdown fixtures render ${total} expected constructs`);
+});
@@ -1,62 +1,388 @@
 #!/usr/bin/env node
 
-const input = process.argv[2];
+// Crawls every sitemap route of the site and validates SEO/social metadata:
+// title and description lengths, canonical URLs, Open Graph and Twitter tags,
+// image dimensions and content type, JSON-LD, and duplicate titles.
+//
+// Usage:
+//   npm run check:og                        # crawl the live site
+//   npm run check:og -- --start             # start `next start` from the local build on :3000, crawl, stop it
+//   npm run check:og -- --base http://localhost:3123  # crawl an already running server
+//   npm run check:og -- <post-slug-or-path> # check a single page
 
-if (!input) {
-  console.error("Usage: npm run check:og -- <post-slug-or-url>");
+import { spawn } from "node:child_process";
+
+const SITE_URL = "https://davideagostini.com";
+
+// Search results truncate titles around 60 characters; descriptions mirror lib/post-schema.ts.
+const TITLE_MAX_LENGTH = 70;
+const DESCRIPTION_MIN_LENGTH = 50;
+const DESCRIPTION_MAX_LENGTH = 180;
+const LARGE_IMAGE_MIN = { width: 600, height: 314 };
+const CONCURRENCY = 4;
+
+const args = process.argv.slice(2);
+const options = { base: null, start: false, target: null };
+
+for (let index = 0; index < args.length; index++) {
+  const arg = args[index];
+  if (arg === "--start") {
+    options.start = true;
+  } else if (arg === "--base") {
+    options.base = args[++index] ?? "";
+  } else if (arg === "--help" || arg === "-h") {
+    console.log(
+      `Usage: npm run check:og -- [--start] [--base <url>] [post-slug-or-path]\n` +
+        `Checks ${SITE_URL} by default; --start serves the local build on :3000 instead.`,
+    );
+    process.exit(0);
+  } else {
+    options.target = arg;
+  }
+}
+
+// Without --start or --base, the live site is checked.
+options.base ??= options.start ? "http://localhost:3000" : SITE_URL;
+
+if (!options.base) {
+  console.error("--base needs a URL, e.g. --base http://localhost:3000");
   process.exit(1);
 }
 
-const normalizeUrl = (value) => {
-  if (value.startsWith("http://") || value.startsWith("https://")) return value;
-  return `https://www.davideagostini.com/android/${value}`;
+const base = options.base.replace(/\/$/, "");
+
+/** Maps a production URL (from the sitemap or a canonical tag) onto the server being checked. */
+const toLocalUrl = (url) => {
+  if (url.startsWith("/")) return `${base}${url}`;
+  return url.startsWith(SITE_URL) ? `${base}${url.slice(SITE_URL.length)}` : url;
 };
 
-const extractMeta = (html, key, attr = "property") => {
-  const regex = new RegExp(`<meta[^>]+${attr}=[\"']${key}[\"'][^>]*content=[\"']([^\"']+)[\"'][^>]*>`, "i");
-  const match = html.match(regex);
-  return match?.[1] ?? null;
+const decodeEntities = (value) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+const parseAttributes = (tag) => {
+  const attributes = {};
+  for (const match of tag.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2]);
+  }
+  return attributes;
 };
 
-const url = normalizeUrl(input);
-const res = await fetch(url, { redirect: "follow" });
+const parseHead = (html) => {
+  const meta = new Map();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = attributes.property ?? attributes.name;
+    if (key && attributes.content !== undefined && !meta.has(key)) {
+      meta.set(key, attributes.content);
+    }
+  }
 
-if (!res.ok) {
-  console.error(`Failed to fetch page: ${res.status} ${res.statusText}`);
-  process.exit(1);
-}
+  const canonicalTag = [...html.matchAll(/<link\b[^>]*>/gi)]
+    .map(([tag]) => parseAttributes(tag))
+    .find((attributes) => attributes.rel === "canonical");
 
-const html = await res.text();
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const jsonLd = [...html.matchAll(/<script[^>]*type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/gi)].map(
+    (match) => match[1],
+  );
 
-const ogImage = extractMeta(html, "og:image", "property");
-const ogTitle = extractMeta(html, "og:title", "property");
-const twitterImage = extractMeta(html, "twitter:image", "name");
+  return {
+    title: title === undefined ? null : decodeEntities(title).trim(),
+    canonical: canonicalTag?.href ?? null,
+    meta,
+    jsonLd,
+  };
+};
 
-console.log("URL:", url);
-console.log("og:title:", ogTitle ?? "MISSING");
-console.log("og:image:", ogImage ?? "MISSING");
-console.log("twitter:image:", twitterImage ?? "MISSING");
+/** Width and height from a PNG or JPEG header, or null for other formats. */
+const readImageSize = (bytes) => {
+  if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47) {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
 
-if (!ogImage || !twitterImage) {
-  console.error("\n❌ Missing required OG/Twitter image tags");
-  process.exit(2);
-}
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = bytes.readUInt16BE(offset + 2);
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC).
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
 
-let imageRes;
-try {
-  imageRes = await fetch(ogImage, { redirect: "follow" });
-} catch (error) {
-  console.error("\n❌ Could not fetch og:image:", error?.message ?? error);
-  process.exit(3);
-}
+  return null;
+};
+
+// A dev server compiling a route on first hit can drop the connection; one retry covers it.
+const fetchWithRetry = async (url, init) => {
+  try {
+    return await fetch(url, init);
+  } catch {
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    return fetch(url, init);
+  }
+};
 
-const contentType = imageRes.headers.get("content-type") || "unknown";
-console.log("og:image status:", imageRes.status);
-console.log("og:image content-type:", contentType);
+const imageCache = new Map();
 
-if (!imageRes.ok || !contentType.startsWith("image/")) {
-  console.error("\n❌ og:image URL is not valid");
-  process.exit(4);
-}
+const fetchImage = (url) => {
+  if (!imageCache.has(url)) {
+    imageCache.set(
+      url,
+      (async () => {
+        const res = await fetchWithRetry(toLocalUrl(url), { redirect: "follow" });
+        const contentType = res.headers.get("content-type") ?? "unknown";
+        const bytes = Buffer.from(await res.arrayBuffer());
+        return { status: res.status, contentType, size: res.ok ? readImageSize(bytes) : null };
+      })().catch((error) => ({ error: error?.message ?? String(error) })),
+    );
+  }
+  return imageCache.get(url);
+};
+
+const checkImage = async (label, url, declared, card, report) => {
+  if (!url) return;
+  if (!/^https?:\/\//.test(url)) {
+    report.error(`${label} must be an absolute URL (got ${url})`);
+    return;
+  }
+
+  const image = await fetchImage(url);
+  if (image.error) {
+    report.error(`${label} could not be fetched: ${image.error}`);
+    return;
+  }
+  if (image.status !== 200) {
+    report.error(`${label} returned HTTP ${image.status}`);
+    return;
+  }
+  if (!image.contentType.startsWith("image/")) {
+    report.error(`${label} has content-type ${image.contentType}`);
+    return;
+  }
+  if (!image.size) {
+    report.warn(`${label} dimensions could not be read (${image.contentType})`);
+    return;
+  }
+
+  const { width, height } = image.size;
+  if (declared.width && Number(declared.width) !== width) {
+    report.error(`${label} is ${width}px wide but og:image:width says ${declared.width}`);
+  }
+  if (declared.height && Number(declared.height) !== height) {
+    report.error(`${label} is ${height}px high but og:image:height says ${declared.height}`);
+  }
+  if (card === "summary_large_image" && (width < LARGE_IMAGE_MIN.width || height < LARGE_IMAGE_MIN.height)) {
+    report.error(`${label} is ${width}x${height}, below ${LARGE_IMAGE_MIN.width}x${LARGE_IMAGE_MIN.height} for summary_large_image`);
+  }
+};
+
+const checkJsonLd = (blocks, report) => {
+  blocks.forEach((block, index) => {
+    let data;
+    try {
+      data = JSON.parse(block);
+    } catch (error) {
+      report.error(`JSON-LD block ${index + 1} is not valid JSON: ${error.message}`);
+      return;
+    }
+
+    for (const item of Array.isArray(data) ? data : [data]) {
+      if (!item || typeof item !== "object") {
+        report.error(`JSON-LD block ${index + 1} contains a non-object entry`);
+      } else if (!item["@context"]) {
+        report.error(`JSON-LD block ${index + 1} is missing @context`);
+      } else if (!item["@type"] && !item["@graph"]) {
+        report.error(`JSON-LD block ${index + 1} is missing @type`);
+      }
+    }
+  });
+};
+
+const checkPage = async (pageUrl) => {
+  const issues = [];
+  const report = {
+    error: (message) => issues.push({ severity: "error", message }),
+    warn: (message) => issues.push({ severity: "warning", message }),
+  };
+
+  let res;
+  try {
+    res = await fetchWithRetry(toLocalUrl(pageUrl), { redirect: "manual" });
+  } catch (error) {
+    report.error(`could not be fetched: ${error?.message ?? error}`);
+    return { url: pageUrl, title: null, issues };
+  }
+
+  if (res.status !== 200) {
+    report.error(`returned HTTP ${res.status}${res.headers.get("location") ? ` → ${res.headers.get("location")}` : ""}`);
+    return { url: pageUrl, title: null, issues };
+  }
 
-console.log("\n✅ OG metadata looks good");
+  const { title, canonical, meta, jsonLd } = parseHead(await res.text());
+  const description = meta.get("description");
+
+  if (!title) {
+    report.error("missing <title>");
+  } else if (title.length > TITLE_MAX_LENGTH) {
+    report.warn(`title is ${title.length} characters (over ${TITLE_MAX_LENGTH})`);
+  }
+
+  if (!description) {
+    report.error("missing meta description");
+  } else if (description.length < DESCRIPTION_MIN_LENGTH || description.length > DESCRIPTION_MAX_LENGTH) {
+    report.warn(`description is ${description.length} characters (expected ${DESCRIPTION_MIN_LENGTH}-${DESCRIPTION_MAX_LENGTH})`);
+  }
+
+  const expectedPath = new URL(pageUrl, SITE_URL).pathname.replace(/\/$/, "") || "/";
+  if (!canonical) {
+    report.error("missing canonical link");
+  } else if (!canonical.startsWith(SITE_URL)) {
+    report.error(`canonical points off-site: ${canonical}`);
+  } else if ((new URL(canonical).pathname.replace(/\/$/, "") || "/") !== expectedPath) {
+    report.error(`canonical ${canonical} does not match the page path ${expectedPath}`);
+  }
+
+  for (const key of ["og:title", "og:description", "og:type", "og:url", "og:image", "twitter:card", "twitter:image"]) {
+    if (!meta.get(key)) report.error(`missing ${key}`);
+  }
+
+  const ogUrl = meta.get("og:url");
+  if (ogUrl && canonical && ogUrl.replace(/\/$/, "") !== canonical.replace(/\/$/, "")) {
+    report.warn(`og:url ${ogUrl} differs from canonical ${canonical}`);
+  }
+
+  const card = meta.get("twitter:card");
+  const declared = { width: meta.get("og:image:width"), height: meta.get("og:image:height") };
+  await checkImage("og:image", meta.get("og:image"), declared, card, report);
+  if (meta.get("twitter:image") !== meta.get("og:image")) {
+    await checkImage("twitter:image", meta.get("twitter:image"), {}, card, report);
+  }
+
+  checkJsonLd(jsonLd, report);
+
+  return { url: pageUrl, title, issues };
+};
+
+const readSitemap = async () => {
+  const res = await fetch(`${base}/sitemap.xml`);
+  if (!res.ok) {
+    throw new Error(`sitemap.xml returned HTTP ${res.status}`);
+  }
+  const xml = await res.text();
+  return [...xml.matchAll(/<loc>([^<]+)<\/loc>/g)].map((match) => decodeEntities(match[1].trim()));
+};
+
+const resolveTarget = (target) => {
+  if (/^https?:\/\//.test(target) || target.startsWith("/")) return target;
+  return `${SITE_URL}/android/${target}`;
+};
+
+const waitForServer = async (timeoutMs) => {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const res = await fetch(base);
+      if (res.status < 500) return;
+    } catch {
+      // Not listening yet.
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new Error(`server at ${base} did not start within ${timeoutMs / 1000}s`);
+};
+
+const startServer = async () => {
+  const port = new URL(base).port || "3000";
+  // Own process group, so stopping it also stops any worker next start forks.
+  const server = spawn(process.execPath, ["node_modules/next/dist/bin/next", "start", "-p", port], {
+    stdio: ["ignore", "ignore", "inherit"],
+    detached: true,
+  });
+  const exited = new Promise((_, reject) => {
+    server.on("exit", (code) => {
+      reject(new Error(`next start exited with code ${code} before serving (did you run \`npm run build\`?)`));
+    });
+  });
+  // Stopping the server after the crawl also fires "exit"; that rejection is expected.
+  exited.catch(() => {});
+  await Promise.race([waitForServer(60_000), exited]);
+  return server;
+};
+
+const mapWithConcurrency = async (items, limit, fn) => {
+  const results = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+};
+
+const main = async () => {
+  const urls = options.target ? [resolveTarget(options.target)] : await readSitemap();
+  console.log(`Checking ${urls.length} page(s) against ${base}\n`);
+
+  const results = await mapWithConcurrency(urls, CONCURRENCY, checkPage);
+
+  const byTitle = new Map();
+  for (const result of results) {
+    if (!result.title) continue;
+    byTitle.set(result.title, [...(byTitle.get(result.title) ?? []), result]);
+  }
+  for (const [title, pages] of byTitle) {
+    if (pages.length < 2) continue;
+    for (const page of pages) {
+      const others = pages.filter((other) => other !== page).map((other) => other.url);
+      page.issues.push({ severity: "error", message: `duplicate title "${title}" (also ${others.join(", ")})` });
+    }
+  }
+
+  let errors = 0;
+  let warnings = 0;
+  for (const { url, issues } of results) {
+    if (issues.length === 0) continue;
+    console.log(url);
+    for (const issue of issues) {
+      if (issue.severity === "error") errors++;
+      else warnings++;
+      console.log(`  ${issue.severity === "error" ? "❌" : "⚠"} ${issue.message}`);
+    }
+  }
+
+  const clean = results.filter((result) => result.issues.length === 0).length;
+  console.log(`\n${results.length} page(s) checked: ${clean} clean, ${errors} error(s), ${warnings} warning(s)`);
+
+  if (errors > 0) {
+    console.error("\n❌ Metadata check failed");
+    return 1;
+  }
+  console.log("\n✅ OG metadata looks good");
+  return 0;
+};
+
+let server = null;
+let exitCode = 1;
+try {
+  if (options.start) server = await startServer();
+  exitCode = await main();
+} catch (error) {
+  console.error(`❌ ${error?.message ?? error}`);
+} finally {
+  if (server?.pid && server.exitCode === null) process.kill(-server.pid);
+}
+process.exit(exitCode);
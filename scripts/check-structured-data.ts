@@ -0,0 +1,113 @@
+// Builds the JSON-LD of every route with the same per-page builders and data loaders
+// the pages call, and validates required schema.org properties, without running a
+// full `next build`.
+// Usage: npm run check:structured-data
+
+import {
+  getAllPostIds,
+  getAllSeries,
+  getAllTags,
+  getPaginatedPosts,
+  getPostFrontmatter,
+  getPostsPagePath,
+  getPostSeriesNavigation,
+  getTagData,
+} from "../lib/posts";
+import { getRelatedPosts } from "../lib/related";
+import { apps } from "../lib/apps";
+import { getAppDocument, getAppDocumentOwner, getAppDocuments, getAppDocumentSlugs } from "../lib/app-documents";
+import { getFeaturedProjects } from "../lib/projects";
+import {
+  appDocumentStructuredData,
+  appsCollectionStructuredData,
+  appStructuredData,
+  notesPageStructuredData,
+  postStructuredData,
+  seriesStructuredData,
+  siteStructuredData,
+  tagStructuredData,
+  validateStructuredData,
+  type StructuredDataIssue,
+} from "../lib/structured-data";
+
+// Payloads the validator must reject, so a rule that silently stops firing is noticed.
+const invalidSamples: { name: string; data: unknown }[] = [
+  { name: "missing @context", data: { "@type": "WebSite", name: "Site", url: "https://example.com" } },
+  { name: "non-numeric Offer price", data: { "@context": "https://schema.org", "@type": "SoftwareApplication", name: "App", applicationCategory: "Utility", operatingSystem: "Android", url: "https://example.com", offers: { "@type": "Offer", price: "Subscription", priceCurrency: "EUR" } } },
+  { name: "relative URL", data: { "@context": "https://schema.org", "@type": "CollectionPage", name: "Notes", url: "/android" } },
+  { name: "empty FAQPage", data: { "@context": "https://schema.org", "@type": "FAQPage", mainEntity: [] } },
+  { name: "breadcrumb gap", data: { "@context": "https://schema.org", "@type": "BreadcrumbList", itemListElement: [{ "@type": "ListItem", position: 1, name: "A", item: "https://example.com/a" }, { "@type": "ListItem", position: 3, name: "B", item: "https://example.com/b" }] } },
+  { name: "bad date", data: { "@context": "https://schema.org", "@type": "TechArticle", headline: "Note", datePublished: "March 3rd" } },
+];
+
+const silentSamples = invalidSamples.filter((sample) => validateStructuredData(sample.data).length === 0);
+
+if (silentSamples.length > 0) {
+  console.error(`❌ The validator accepted invalid samples: ${silentSamples.map((sample) => sample.name).join(", ")}`);
+  process.exit(1);
+}
+
+async function collectRoutes() {
+  const routes: { path: string; data: unknown }[] = [{ path: "/ (layout)", data: siteStructuredData(getFeaturedProjects()) }];
+
+  const firstPage = getPaginatedPosts(1);
+  for (let page = 1; firstPage && page <= firstPage.totalPages; page++) {
+    routes.push({ path: getPostsPagePath(page), data: notesPageStructuredData(getPaginatedPosts(page)!) });
+  }
+
+  for (const { slug } of getAllTags()) {
+    routes.push({ path: `/android/tags/${slug}`, data: tagStructuredData(getTagData(slug)!) });
+  }
+
+  for (const series of getAllSeries()) {
+    routes.push({ path: `/android/series/${series.slug}`, data: seriesStructuredData(series) });
+  }
+
+  for (const { params } of getAllPostIds()) {
+    const post = getPostFrontmatter(params.slug)!;
+    routes.push({
+      path: `/android/${params.slug}`,
+      data: postStructuredData({
+        post,
+        relatedPosts: getRelatedPosts(params.slug),
+        seriesNavigation: getPostSeriesNavigation(params.slug),
+      }),
+    });
+  }
+
+  routes.push({ path: "/apps", data: appsCollectionStructuredData(apps) });
+
+  for (const app of apps) {
+    routes.push({ path: `/apps/${app.slug}`, data: appStructuredData(app) });
+  }
+
+  for (const slug of getAppDocumentSlugs()) {
+    for (const { kind, href } of getAppDocuments(slug)) {
+      const document = (await getAppDocument(slug, kind))!;
+      routes.push({ path: href, data: appDocumentStructuredData(getAppDocumentOwner(slug), document) });
+    }
+  }
+
+  return routes;
+}
+
+function formatIssues(issues: StructuredDataIssue[]) {
+  return issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join("\n");
+}
+
+collectRoutes().then((routes) => {
+  const failures = routes
+    .map((route) => ({ path: route.path, issues: validateStructuredData(JSON.parse(JSON.stringify(route.data))) }))
+    .filter((route) => route.issues.length > 0);
+
+  if (failures.length > 0) {
+    console.error(
+      `❌ Invalid structured data on ${failures.length} route(s):\n${failures
+        .map((failure) => `${failure.path}:\n${formatIssues(failure.issues)}`)
+        .join("\n")}`,
+    );
+    process.exit(1);
+  }
+
+  console.log(`✅ Structured data on ${routes.length} routes is valid`);
+});